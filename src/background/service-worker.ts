@@ -6,9 +6,11 @@ import type {
   PopupToBackgroundMessage
 } from '@shared/messages';
 import { isContentMessage, isOffscreenMessage, isPopupMessage } from '@shared/messages';
-import type { ArticleContent, PlaybackState, TTSRequest, TTSSettings } from '@shared/types';
+import type { ArticleContent, ExportState, LexiconRule, PlaybackState, TTSRequest, TTSSettings } from '@shared/types';
+import { parseSsml } from '@lib/tts/ssml';
 
 const OFFSCREEN_DOCUMENT_PATH = 'src/offscreen/offscreen.html';
+const VOICE_PREVIEW_TEXT = 'This is how your new voice sounds when reading an article.';
 let offscreenReady = false;
 let offscreenReadyResolver: (() => void) | null = null;
 let offscreenReadyPromise: Promise<void> | null = null;
@@ -25,6 +27,9 @@ let playbackState: PlaybackState = {
 };
 let activeRequestId: string | null = null;
 let activeTabId: number | null = null;
+// The last request another extension started; those may replace each other but not the user's
+let externalRequestId: string | null = null;
+let exportState: ExportState = { status: 'idle', currentChunk: 0, totalChunks: 0 };
 
 chrome.runtime.onInstalled.addListener(() => {
   console.info('[Riddi] Extension installed');
@@ -38,6 +43,14 @@ chrome.tabs.onRemoved.addListener((tabId) => {
   }
 });
 
+// The offscreen document applies settings changes to the article that is playing: speed at
+// once, voice and quality from the next chunk it synthesizes
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'sync' || !changes.ttsSettings?.newValue || !offscreenReady) return;
+  const settings = changes.ttsSettings.newValue as TTSSettings;
+  void postToOffscreen({ type: 'update-settings', requestId: activeRequestId, settings });
+});
+
 chrome.runtime.onMessage.addListener((message: ContentToBackgroundMessage | OffscreenToBackgroundMessage | PopupToBackgroundMessage, sender, sendResponse) => {
   if (isContentMessage(message)) {
     const tabId = sender.tab?.id;
@@ -104,19 +117,13 @@ async function handlePopupMessage(message: PopupToBackgroundMessage, sendRespons
   switch (message.type) {
     case 'get-playback-state': {
       const result = await getActiveTabArticle();
-      sendResponse({ state: playbackState, hasArticle: !!result?.article });
+      sendResponse({ state: playbackState, hasArticle: !!result?.article, exportState });
       return;
     }
     case 'popup-start-tts': {
       const result = await getActiveTabArticle();
       if (result) {
-        const saved = await chrome.storage.sync.get(['ttsSettings']);
-        const settings: TTSSettings = saved?.ttsSettings ?? {
-          voice: 'M1',
-          speed: 1,
-          qualitySteps: 6,
-          widgetEnabled: true
-        };
+        const settings = await loadSettings();
         
         await ensureOffscreenReady();
         const requestId = crypto.randomUUID();
@@ -132,7 +139,7 @@ async function handlePopupMessage(message: PopupToBackgroundMessage, sendRespons
         });
         await postToOffscreen({
           type: 'synthesize',
-          payload: { requestId, text: result.article.content, settings }
+          payload: { requestId, text: result.article.content, locale: result.article.lang, settings, lexicon: await loadLexicon() }
         });
       }
       sendResponse({ ok: true });
@@ -155,6 +162,44 @@ async function handlePopupMessage(message: PopupToBackgroundMessage, sendRespons
       updatePlaybackState({ status: 'idle', positionSeconds: 0, durationSeconds: 0 });
       sendResponse({ ok: true });
       return;
+    case 'popup-seek-tts':
+      await postToOffscreen({ type: 'seek', target: message.target });
+      sendResponse({ ok: true });
+      return;
+    case 'popup-preview-voice':
+      await startDetachedSpeech({ text: VOICE_PREVIEW_TEXT, voiceBlend: message.blend });
+      sendResponse({ ok: true });
+      return;
+    case 'popup-export-audio': {
+      const result = await getActiveTabArticle();
+      if (!result) {
+        sendResponse({ ok: false, error: 'No article detected' });
+        return;
+      }
+      const settings = await loadSettings();
+      await ensureOffscreenReady();
+      const exportId = crypto.randomUUID();
+      exportState = { status: 'running', exportId, format: message.format, currentChunk: 0, totalChunks: 0 };
+      await postToOffscreen({
+        type: 'export-audio',
+        payload: { exportId, article: result.article, settings, format: message.format, lexicon: await loadLexicon() }
+      });
+      sendResponse({ ok: true });
+      return;
+    }
+    case 'popup-cancel-export':
+      await postToOffscreen({ type: 'cancel-export' });
+      exportState = { status: 'idle', currentChunk: 0, totalChunks: 0 };
+      sendResponse({ ok: true });
+      return;
+    case 'popup-retry-model':
+      // The model is loaded again on the next play; playback in progress keeps its browser voice
+      await postToOffscreen({ type: 'retry-model' });
+      if (playbackState.engine) {
+        updatePlaybackState({ engine: { id: playbackState.engine.id } });
+      }
+      sendResponse({ ok: true });
+      return;
     case 'popup-toggle-selection-mode': {
       const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
       if (activeTab?.id) {
@@ -187,7 +232,10 @@ async function handleContentMessage(message: ContentToBackgroundMessage, tabId?:
         durationSeconds: 0,
         highlightedSentence: 0
       });
-      await postToOffscreen({ type: 'synthesize', payload: message.payload });
+      await postToOffscreen({
+        type: 'synthesize',
+        payload: { ...message.payload, lexicon: await loadLexicon() }
+      });
       break;
     case 'pause-tts':
       await postToOffscreen({ type: 'pause' });
@@ -203,6 +251,9 @@ async function handleContentMessage(message: ContentToBackgroundMessage, tabId?:
       activeTabId = null;
       updatePlaybackState({ status: 'idle', positionSeconds: 0, durationSeconds: 0 });
       break;
+    case 'seek-tts':
+      await postToOffscreen({ type: 'seek', target: message.target });
+      break;
   }
 }
 
@@ -255,6 +306,15 @@ async function handleOffscreenMessage(message: OffscreenToBackgroundMessage): Pr
         }
       }
       break;
+    case 'tts-position':
+      if (activeRequestId && message.requestId === activeRequestId) {
+        // Positions arrive twice a second: only the tab being read shows them, and the popup polls
+        playbackState = { ...playbackState, positionSeconds: message.positionSeconds, durationSeconds: message.durationSeconds };
+        if (activeTabId) {
+          sendToTab(activeTabId, { type: 'playback-state', state: playbackState });
+        }
+      }
+      break;
     case 'tts-complete':
       if (activeRequestId && message.requestId === activeRequestId) {
         // Send final highlight clear to active tab
@@ -275,13 +335,83 @@ async function handleOffscreenMessage(message: OffscreenToBackgroundMessage): Pr
         });
       }
       break;
+    case 'model-progress':
+      updatePlaybackState({ modelProgress: message.progress ?? undefined });
+      break;
+    case 'backend-info':
+      updatePlaybackState({ backend: message.info });
+      break;
+    case 'engine-info':
+      updatePlaybackState({ engine: message.info });
+      break;
+    case 'tts-unsupported-chars':
+      if (activeRequestId && message.requestId === activeRequestId) {
+        updatePlaybackState({ unsupportedCharacters: message.characters });
+      }
+      break;
     case 'tts-error':
       console.error('[Riddi] TTS error:', message.message);
       updatePlaybackState({ status: 'error', error: message.message });
       break;
+    case 'export-progress':
+      if (exportState.exportId === message.exportId) {
+        exportState = { ...exportState, currentChunk: message.currentChunk, totalChunks: message.totalChunks };
+      }
+      break;
+    case 'export-complete':
+      if (exportState.exportId === message.exportId) {
+        // The blob URL belongs to the offscreen document, which keeps it alive long enough for the download
+        await chrome.downloads.download({ url: message.url, filename: message.filename });
+        exportState = { ...exportState, status: 'done' };
+      }
+      break;
+    case 'export-error':
+      if (exportState.exportId === message.exportId) {
+        console.error('[Riddi] Export error:', message.message);
+        exportState = { ...exportState, status: 'error', error: message.message };
+      }
+      break;
   }
 }
 
+// Speech that is not tied to a page (voice previews, external callers), so there is nothing to highlight
+async function startDetachedSpeech(payload: Omit<TTSRequest, 'requestId' | 'settings'>): Promise<string> {
+  const settings = await loadSettings();
+  await ensureOffscreenReady();
+  const requestId = crypto.randomUUID();
+  activeRequestId = requestId;
+  activeTabId = null;
+  updatePlaybackState({
+    status: 'loading',
+    currentChunk: 0,
+    totalChunks: 0,
+    positionSeconds: 0,
+    durationSeconds: 0,
+    highlightedSentence: 0
+  });
+  await postToOffscreen({
+    type: 'synthesize',
+    payload: { requestId, settings, ...payload }
+  });
+  return requestId;
+}
+
+async function loadSettings(): Promise<TTSSettings> {
+  const saved = await chrome.storage.sync.get(['ttsSettings']);
+  return (saved?.ttsSettings as TTSSettings | undefined) ?? {
+    voice: 'M1',
+    speed: 1,
+    qualitySteps: 6,
+    widgetEnabled: true
+  };
+}
+
+// The lexicon lives in local storage: sync storage caps items at 8 KB, which a rule list outgrows quickly
+async function loadLexicon(): Promise<LexiconRule[]> {
+  const saved = await chrome.storage.local.get(['ttsLexicon']);
+  return (saved?.ttsLexicon as LexiconRule[] | undefined) ?? [];
+}
+
 function updatePlaybackState(partial: Partial<PlaybackState>): void {
   playbackState = { ...playbackState, ...partial };
   // Broadcast state to all tabs so popup can get updated state
@@ -313,7 +443,7 @@ async function broadcastToContent(message: BackgroundToContentMessage): Promise<
   }
 }
 
-chrome.runtime.onMessageExternal.addListener((message, _sender, sendResponse) => {
+chrome.runtime.onMessageExternal.addListener((message, sender, sendResponse) => {
   if (message?.type === 'get-last-article') {
     // Return article from active tab
     getActiveTabArticle().then(result => {
@@ -321,5 +451,29 @@ chrome.runtime.onMessageExternal.addListener((message, _sender, sendResponse) =>
     });
     return true;
   }
+  if (message?.type === 'speak' && typeof message.text === 'string') {
+    // Other extensions can send plain text or, with ssml: true, an SSML document
+    void (async () => {
+      try {
+        const userPlayback = activeRequestId !== null
+          && activeRequestId !== externalRequestId
+          && ['loading', 'playing', 'paused'].includes(playbackState.status);
+        if (userPlayback) {
+          throw new Error('Riddi is reading something else');
+        }
+        const ssml = message.ssml === true;
+        // Fail here rather than after replying, when the offscreen document parses it
+        if (ssml) parseSsml(message.text);
+        const lexicon = await loadLexicon();
+        const requestId = await startDetachedSpeech({ text: message.text, ssml, lexicon });
+        externalRequestId = requestId;
+        sendResponse({ ok: true, requestId });
+      } catch (error) {
+        console.warn('[Riddi] External speak request refused:', sender.id, error);
+        sendResponse({ ok: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    })();
+    return true;
+  }
   return false;
 });
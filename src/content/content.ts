@@ -1,7 +1,8 @@
 import { Readability } from '@mozilla/readability';
-import { highlightChunk, resetHighlightTracking, pauseWordAnimation, HIGHLIGHT_CLASS, setArticleElements as setHighlightElements } from './highlight';
+import { highlightChunk, resetHighlightTracking, pauseWordAnimation, resumeWordAnimation, HIGHLIGHT_CLASS, setArticleElements as setHighlightElements } from './highlight';
+import { formatClock } from '@shared/format';
 import type { BackgroundToContentMessage, ContentToBackgroundMessage } from '@shared/messages';
-import type { ArticleContent, PlaybackState, TTSRequest, TTSSettings } from '@shared/types';
+import type { ArticleContent, ArticleHeading, PlaybackState, SeekTarget, TTSRequest, TTSSettings } from '@shared/types';
 
 const WIDGET_ID = 'riddi-widget';
 const STYLES_ID = 'tts-reader-styles';
@@ -12,6 +13,8 @@ const SELECTION_HOVER_CLASS = 'riddi-selection-hover';
 const ICON_SELECT = `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round"><circle cx="12" cy="12" r="3"/><line x1="12" y1="2" x2="12" y2="6"/><line x1="12" y1="18" x2="12" y2="22"/><line x1="2" y1="12" x2="6" y2="12"/><line x1="18" y1="12" x2="22" y2="12"/></svg>`;
 const ICON_PLAY = `<svg viewBox="0 0 24 24" fill="currentColor"><polygon points="6,4 20,12 6,20"/></svg>`;
 const ICON_PAUSE = `<svg viewBox="0 0 24 24" fill="currentColor"><rect x="5" y="4" width="5" height="16" rx="1"/><rect x="14" y="4" width="5" height="16" rx="1"/></svg>`;
+const ICON_PREV = `<svg viewBox="0 0 24 24" fill="currentColor"><rect x="5" y="5" width="2.5" height="14" rx="1"/><polygon points="19,5 9,12 19,19"/></svg>`;
+const ICON_NEXT = `<svg viewBox="0 0 24 24" fill="currentColor"><polygon points="5,5 15,12 5,19"/><rect x="16.5" y="5" width="2.5" height="14" rx="1"/></svg>`;
 const ICON_STOP = `<svg viewBox="0 0 24 24" fill="currentColor"><rect x="5" y="5" width="14" height="14" rx="2"/></svg>`;
 const ICON_LOADING = `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round"><path d="M12 2v4M12 18v4M4.93 4.93l2.83 2.83M16.24 16.24l2.83 2.83M2 12h4M18 12h4M4.93 19.07l2.83-2.83M16.24 7.76l2.83-2.83"/></svg>`;
 
@@ -32,7 +35,13 @@ let mainBtn: HTMLButtonElement | null = null;
 let playBtn: HTMLButtonElement | null = null;
 let pauseBtn: HTMLButtonElement | null = null;
 let stopBtn: HTMLButtonElement | null = null;
+let prevBtn: HTMLButtonElement | null = null;
+let nextBtn: HTMLButtonElement | null = null;
 let controlsPanel: HTMLDivElement | null = null;
+let loadProgress: HTMLSpanElement | null = null;
+let positionView: HTMLDivElement | null = null;
+let positionFill: HTMLDivElement | null = null;
+let positionLabel: HTMLSpanElement | null = null;
 
 interface TextBlock {
   text: string;
@@ -177,8 +186,14 @@ function ensureWidgetExists(): void {
     playBtn = null;
     pauseBtn = null;
     stopBtn = null;
+    prevBtn = null;
+    nextBtn = null;
     selectBtn = null;
     controlsPanel = null;
+    loadProgress = null;
+    positionView = null;
+    positionFill = null;
+    positionLabel = null;
     isWidgetExpanded = false;
     injectWidget();
   }
@@ -207,7 +222,9 @@ function extractArticle(): ArticleContent | null {
       title: parsed.title ?? document.title,
       byline: parsed.byline ?? undefined,
       content,
-      sentences: splitIntoSentences(content)
+      sentences: splitIntoSentences(content),
+      headings: collectHeadings(textBlocks),
+      lang: pageLanguage(parsed.lang)
     };
   } catch {
     textBlocks = extractTextBlocksFallback(document.body);
@@ -217,11 +234,24 @@ function extractArticle(): ArticleContent | null {
     return {
       title: document.title,
       content,
-      sentences: splitIntoSentences(content)
+      sentences: splitIntoSentences(content),
+      lang: pageLanguage()
     };
   }
 }
 
+// Language declared by the page (or the article element), if any
+function pageLanguage(declared?: string | null): string | undefined {
+  return declared?.trim() || document.documentElement.lang.trim() || undefined;
+}
+
+// Heading blocks become chapter markers when the article is exported as audio
+function collectHeadings(blocks: TextBlock[]): ArticleHeading[] {
+  return blocks
+    .filter(b => /^H[1-6]$/.test(b.element.tagName))
+    .map(b => ({ text: b.text, level: Number(b.element.tagName[1]) }));
+}
+
 function extractBlocksFromReadabilityHTML(htmlContent: string, plainContent: string): TextBlock[] {
   const blocks: TextBlock[] = [];
   const parser = new DOMParser();
@@ -462,20 +492,61 @@ function injectWidget(): void {
     resetHighlightTracking();
   });
 
-  controlsPanel.append(selectBtn, playBtn, pauseBtn, stopBtn);
+  prevBtn = document.createElement('button');
+  prevBtn.className = 'riddi-ctrl-btn riddi-ctrl-btn--prev';
+  prevBtn.innerHTML = ICON_PREV;
+  prevBtn.title = 'Previous sentence (Ctrl+Shift+Left)';
+  prevBtn.addEventListener('click', (e) => {
+    e.stopPropagation();
+    seek({ kind: 'relative', unit: 'chunk', direction: 'back' });
+  });
+
+  nextBtn = document.createElement('button');
+  nextBtn.className = 'riddi-ctrl-btn riddi-ctrl-btn--next';
+  nextBtn.innerHTML = ICON_NEXT;
+  nextBtn.title = 'Next sentence (Ctrl+Shift+Right)';
+  nextBtn.addEventListener('click', (e) => {
+    e.stopPropagation();
+    seek({ kind: 'relative', unit: 'chunk', direction: 'forward' });
+  });
+
+  // Remaining time with a thin progress bar; durations are partly estimated until synthesized
+  positionView = document.createElement('div');
+  positionView.className = 'riddi-position';
+  positionView.style.display = 'none';
+  const positionBar = document.createElement('div');
+  positionBar.className = 'riddi-position__bar';
+  positionFill = document.createElement('div');
+  positionFill.className = 'riddi-position__fill';
+  positionBar.append(positionFill);
+  positionLabel = document.createElement('span');
+  positionLabel.className = 'riddi-position__label';
+  positionView.append(positionBar, positionLabel);
+
+  controlsPanel.append(selectBtn, prevBtn, playBtn, pauseBtn, nextBtn, stopBtn, positionView);
 
   mainBtn = document.createElement('button');
   mainBtn.className = 'riddi-main-btn';
   mainBtn.title = 'Riddi TTS';
   mainBtn.addEventListener('click', toggleWidgetExpanded);
 
-  widgetRoot.append(controlsPanel, mainBtn);
+  // Shown next to the icon while the voice models load (first start after install or update)
+  loadProgress = document.createElement('span');
+  loadProgress.className = 'riddi-load-progress';
+  loadProgress.style.display = 'none';
+
+  widgetRoot.append(controlsPanel, loadProgress, mainBtn);
   document.body.appendChild(widgetRoot);
   
   updateWidgetVisibility();
   updateWidgetState();
 }
 
+function seek(target: SeekTarget): void {
+  if (playbackState?.status !== 'playing' && playbackState?.status !== 'paused') return;
+  void notifyBackground({ type: 'seek-tts', target });
+}
+
 function handlePlayPauseClick(): void {
   if (!playbackState || playbackState.status === 'idle' || playbackState.status === 'error') {
     void startPlayback();
@@ -666,7 +737,9 @@ function extractArticleFromElement(element: HTMLElement): ArticleContent | null
       return {
         title: document.title,
         content,
-        sentences: splitIntoSentences(content)
+        sentences: splitIntoSentences(content),
+        headings: collectHeadings(textBlocks),
+        lang: pageLanguage(element.closest<HTMLElement>('[lang]')?.lang)
       };
     }
     
@@ -694,7 +767,9 @@ function extractArticleFallback(element: HTMLElement): ArticleContent | null {
   return {
     title: document.title,
     content,
-    sentences: splitIntoSentences(content)
+    sentences: splitIntoSentences(content),
+    headings: collectHeadings(textBlocks),
+    lang: pageLanguage(element.closest<HTMLElement>('[lang]')?.lang)
   };
 }
 
@@ -739,15 +814,19 @@ function updateSelectionButtonState(): void {
 
 function handleRuntimeMessage(message: BackgroundToContentMessage): void {
   switch (message.type) {
-    case 'playback-state':
+    case 'playback-state': {
+      const previousStatus = playbackState?.status;
       playbackState = message.state;
       updateWidgetState();
       if (playbackState.status === 'idle') {
         resetHighlightTracking();
       } else if (playbackState.status === 'paused') {
         pauseWordAnimation();
+      } else if (playbackState.status === 'playing' && previousStatus === 'paused') {
+        resumeWordAnimation();
       }
       break;
+    }
     case 'highlight-chunk':
       if (message.chunkIndex < 0) {
         resetHighlightTracking();
@@ -776,7 +855,40 @@ function updateWidgetState(): void {
   } else {
     mainBtn.classList.remove('riddi-btn--loading');
   }
+
+  const modelProgress = playbackState?.modelProgress;
+  if (loadProgress) {
+    if (modelProgress) {
+      const percent = modelProgress.totalBytes > 0
+        ? Math.round((modelProgress.loadedBytes / modelProgress.totalBytes) * 100)
+        : Math.round(((modelProgress.modelIndex - 1) / modelProgress.modelCount) * 100);
+      loadProgress.textContent = `${percent}%`;
+      loadProgress.title = modelProgress.stage === 'compile'
+        ? `Preparing voice model: ${modelProgress.model}`
+        : `Loading voice model: ${modelProgress.model}`;
+      loadProgress.style.display = 'block';
+    } else {
+      loadProgress.style.display = 'none';
+    }
+  }
   
+  const canSeek = status === 'playing' || status === 'paused';
+  if (prevBtn) prevBtn.disabled = !canSeek;
+  if (nextBtn) nextBtn.disabled = !canSeek;
+
+  if (positionView && positionFill && positionLabel) {
+    const position = playbackState?.positionSeconds ?? 0;
+    const duration = playbackState?.durationSeconds ?? 0;
+    if (canSeek && duration > 0) {
+      positionFill.style.width = `${Math.min(100, (position / duration) * 100)}%`;
+      positionLabel.textContent = `-${formatClock(duration - position)}`;
+      positionView.title = `${formatClock(position)} of ${formatClock(duration)}`;
+      positionView.style.display = 'flex';
+    } else {
+      positionView.style.display = 'none';
+    }
+  }
+
   if (status === 'playing') {
     playBtn.style.display = 'none';
     pauseBtn.style.display = 'flex';
@@ -816,7 +928,8 @@ async function startPlayback(): Promise<void> {
   const request: TTSRequest = {
     requestId: crypto.randomUUID(),
     text: article.content,
-    settings
+    settings,
+    locale: article.lang
   };
   
   notifyBackground({ type: 'start-tts', payload: request }).catch((error) =>
@@ -842,6 +955,16 @@ async function loadSettings(): Promise<void> {
   }
 }
 
+// Ctrl+Shift+<key> seeks; left untouched while nothing plays so text selection shortcuts keep working
+const SEEK_SHORTCUTS: Record<string, SeekTarget> = {
+  ArrowLeft: { kind: 'relative', unit: 'chunk', direction: 'back' },
+  ArrowRight: { kind: 'relative', unit: 'chunk', direction: 'forward' },
+  ArrowUp: { kind: 'relative', unit: 'paragraph', direction: 'back' },
+  ArrowDown: { kind: 'relative', unit: 'paragraph', direction: 'forward' },
+  PageUp: { kind: 'relative', unit: 'heading', direction: 'back' },
+  PageDown: { kind: 'relative', unit: 'heading', direction: 'forward' }
+};
+
 function handleShortcuts(event: KeyboardEvent): void {
   const isModifier = event.code.startsWith('Shift') || 
                      event.code.startsWith('Alt') || 
@@ -878,6 +1001,14 @@ function handleShortcuts(event: KeyboardEvent): void {
     event.preventDefault();
     event.stopPropagation();
     toggleSelectionMode();
+    return;
+  }
+
+  const seekTarget = SEEK_SHORTCUTS[event.code];
+  if (seekTarget && (playbackState?.status === 'playing' || playbackState?.status === 'paused')) {
+    event.preventDefault();
+    event.stopPropagation();
+    seek(seekTarget);
   }
 }
 
@@ -924,11 +1055,47 @@ function injectStyles(): void {
       animation: riddi-pulse 1.5s ease-in-out infinite;
     }
     
+    #${WIDGET_ID} .riddi-load-progress {
+      margin-right: 6px;
+      padding: 2px 6px;
+      border-radius: 8px;
+      background: #2D2D2D;
+      color: #FFE8D2;
+      font-size: 10px;
+      font-variant-numeric: tabular-nums;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+    }
+
     @keyframes riddi-pulse {
       0%, 100% { opacity: 0.7; }
       50% { opacity: 1; }
     }
     
+    #${WIDGET_ID} .riddi-position {
+      flex-direction: column;
+      align-items: stretch;
+      gap: 2px;
+      width: 40px;
+      margin-left: 2px;
+    }
+    #${WIDGET_ID} .riddi-position__bar {
+      height: 3px;
+      border-radius: 2px;
+      background: rgba(255, 255, 255, 0.12);
+      overflow: hidden;
+    }
+    #${WIDGET_ID} .riddi-position__fill {
+      height: 100%;
+      background: #F47C26;
+      transition: width 0.5s linear;
+    }
+    #${WIDGET_ID} .riddi-position__label {
+      color: #FFE8D2;
+      font-size: 10px;
+      text-align: center;
+      font-variant-numeric: tabular-nums;
+    }
+
     #${WIDGET_ID} .riddi-controls {
       display: none;
       align-items: center;
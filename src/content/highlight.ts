@@ -14,6 +14,11 @@ let wordHighlightTimeout: ReturnType<typeof setTimeout> | null = null;
 let currentWordIndex = 0;
 let currentWords: HTMLElement[] = [];
 let currentChunkIndex = -1;
+// Word timing of the running animation, kept so a pause can pick up mid-word
+let msPerWord = 0;
+let sentenceEndPause = 0;
+let wordDueAt = 0; // when the current word's timer fires (performance.now())
+let pausedRemainingMs: number | null = null; // time left on the current word while paused
 
 export function setArticleElements(blocks: TextBlock[], _fullContent?: string): void {
   articleTextBlocks = blocks;
@@ -221,6 +226,7 @@ function wrapWordsInElement(container: HTMLElement): void {
 
 function startWordAnimation(durationMs: number, chunkWordCount: number, startIndex = 0): void {
   if (wordHighlightTimeout) clearTimeout(wordHighlightTimeout);
+  pausedRemainingMs = null;
   
   currentWordIndex = startIndex;
   
@@ -228,31 +234,32 @@ function startWordAnimation(durationMs: number, chunkWordCount: number, startInd
   
   // Calculate ms per word from actual audio duration and chunk word count
   // Use a minimum of 100ms to avoid too-fast animation
-  const msPerWord = Math.max(100, Math.round(durationMs / chunkWordCount));
+  msPerWord = Math.max(100, Math.round(durationMs / chunkWordCount));
   
   // Extra pause after sentence-ending punctuation (25% of word time)
-  const sentenceEndPause = Math.round(msPerWord * 0.25);
+  sentenceEndPause = Math.round(msPerWord * 0.25);
   
   highlightCurrentWord();
-  
-  const scheduleNextWord = () => {
-    const currentWord = currentWords[currentWordIndex];
-    const wordText = currentWord?.textContent || '';
-    const isSentenceEnd = /[.!?]$/.test(wordText.trim());
-    const delay = isSentenceEnd ? msPerWord + sentenceEndPause : msPerWord;
-    
-    wordHighlightTimeout = setTimeout(() => {
-      currentWordIndex++;
-      if (currentWordIndex >= currentWords.length) {
-        wordHighlightTimeout = null;
-        return;
-      }
-      highlightCurrentWord();
-      scheduleNextWord();
-    }, delay);
-  };
-  
-  scheduleNextWord();
+  scheduleNextWord(currentWordDelay());
+}
+
+function currentWordDelay(): number {
+  const wordText = currentWords[currentWordIndex]?.textContent || '';
+  const isSentenceEnd = /[.!?]$/.test(wordText.trim());
+  return isSentenceEnd ? msPerWord + sentenceEndPause : msPerWord;
+}
+
+function scheduleNextWord(delay: number): void {
+  wordDueAt = performance.now() + delay;
+  wordHighlightTimeout = setTimeout(() => {
+    currentWordIndex++;
+    if (currentWordIndex >= currentWords.length) {
+      wordHighlightTimeout = null;
+      return;
+    }
+    highlightCurrentWord();
+    scheduleNextWord(currentWordDelay());
+  }, delay);
 }
 
 function highlightCurrentWord(): void {
@@ -379,9 +386,22 @@ export function pauseWordAnimation(): void {
   if (wordHighlightTimeout) {
     clearTimeout(wordHighlightTimeout);
     wordHighlightTimeout = null;
+    pausedRemainingMs = Math.max(0, wordDueAt - performance.now());
   }
 }
 
+/**
+ * Carry on from the word that was highlighted at pause, for the rest of its time, since
+ * the audio resumes from the same sample.
+ */
+export function resumeWordAnimation(): void {
+  if (pausedRemainingMs === null || currentWords.length === 0) return;
+  const remaining = pausedRemainingMs;
+  pausedRemainingMs = null;
+  highlightCurrentWord();
+  scheduleNextWord(remaining);
+}
+
 export function clearPageHighlights(): void {
   if (wordHighlightTimeout) {
     clearTimeout(wordHighlightTimeout);
@@ -404,6 +424,7 @@ export function clearPageHighlights(): void {
   originalHTMLMap.clear();
   currentWords = [];
   currentWordIndex = 0;
+  pausedRemainingMs = null;
   
   // Clean up stray classes
   document.querySelectorAll('.' + HIGHLIGHT_CLASS).forEach(el => el.classList.remove(HIGHLIGHT_CLASS));
@@ -0,0 +1,156 @@
+import type { OpusPacket, OpusTrack } from './webm';
+
+const OPUS_SAMPLE_RATE = 48000;
+const DEFAULT_BITRATE = 64000;
+// Samples fed to the encoder per AudioData; the encoder slices them into 20 ms packets itself
+const FEED_FRAMES = OPUS_SAMPLE_RATE;
+const MAX_ENCODE_QUEUE = 8;
+// libopus lookahead at 48 kHz, used when the encoder does not hand us an OpusHead
+const DEFAULT_PRE_SKIP = 312;
+
+export async function isOpusEncodingSupported(): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: 'opus',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels: 1,
+      bitrate: DEFAULT_BITRATE
+    });
+    return supported === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encode mono samples to Opus with WebCodecs, a part at a time, so a long export never
+ * holds more than one part as raw samples. Parts are resampled to 48 kHz first, the only
+ * rate every Opus decoder handles natively; only the (small) encoded packets are kept.
+ */
+export class OpusStreamEncoder {
+  private readonly packets: OpusPacket[] = [];
+  private description: Uint8Array | null = null;
+  private encodeError: unknown = null;
+  private framesWritten = 0; // at 48 kHz
+  private framesRead = 0; // at the source rate
+  private readonly encoder: AudioEncoder;
+
+  private constructor(
+    private readonly sampleRate: number,
+    bitrate: number,
+    private readonly signal?: AbortSignal
+  ) {
+    this.encoder = new AudioEncoder({
+      output: (chunk, metadata) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        this.packets.push({ data, timestamp: chunk.timestamp });
+        const config = metadata?.decoderConfig?.description;
+        if (config && !this.description) {
+          this.description = ArrayBuffer.isView(config)
+            ? new Uint8Array(config.buffer, config.byteOffset, config.byteLength).slice()
+            : new Uint8Array(config).slice();
+        }
+      },
+      error: (error) => {
+        this.encodeError = error;
+      }
+    });
+    this.encoder.configure({ codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: 1, bitrate });
+  }
+
+  static async create(sampleRate: number, bitrate = DEFAULT_BITRATE, signal?: AbortSignal): Promise<OpusStreamEncoder> {
+    if (!(await isOpusEncodingSupported())) {
+      throw new Error('Opus encoding is not supported in this browser');
+    }
+    return new OpusStreamEncoder(sampleRate, bitrate, signal);
+  }
+
+  async write(samples: Float32Array): Promise<void> {
+    try {
+      // Each part is resampled to end where the whole stream so far would, so rounding at part
+      // boundaries never adds up and times at the source rate keep matching the audio
+      this.framesRead += samples.length;
+      const length = Math.round((this.framesRead * OPUS_SAMPLE_RATE) / this.sampleRate) - this.framesWritten;
+      const pcm = this.sampleRate === OPUS_SAMPLE_RATE ? samples : await resample(samples, this.sampleRate, length);
+      for (let offset = 0; offset < pcm.length; offset += FEED_FRAMES) {
+        this.signal?.throwIfAborted();
+        if (this.encodeError) throw this.encodeError;
+        const frame = pcm.subarray(offset, Math.min(offset + FEED_FRAMES, pcm.length));
+        const audioData = new AudioData({
+          format: 'f32-planar',
+          sampleRate: OPUS_SAMPLE_RATE,
+          numberOfFrames: frame.length,
+          numberOfChannels: 1,
+          timestamp: Math.round((this.framesWritten / OPUS_SAMPLE_RATE) * 1e6),
+          data: frame.slice()
+        });
+        this.encoder.encode(audioData);
+        audioData.close();
+        this.framesWritten += frame.length;
+        while (this.encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+      }
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Flush the encoder and return the track. The encoder cannot be written to afterwards.
+   */
+  async finish(): Promise<OpusTrack> {
+    try {
+      await this.encoder.flush();
+      if (this.encodeError) throw this.encodeError;
+    } finally {
+      this.close();
+    }
+
+    const head = this.description;
+    const codecPrivate = head && new TextDecoder().decode(head.subarray(0, 8)) === 'OpusHead' ? head : opusHead(DEFAULT_PRE_SKIP);
+    const preSkip = codecPrivate.length >= 12 ? codecPrivate[10] | (codecPrivate[11] << 8) : DEFAULT_PRE_SKIP;
+
+    return {
+      packets: this.packets,
+      codecPrivate,
+      preSkip,
+      durationSeconds: this.framesWritten / OPUS_SAMPLE_RATE
+    };
+  }
+
+  close(): void {
+    if (this.encoder.state !== 'closed') this.encoder.close();
+  }
+}
+
+// Identification header from RFC 7845, section 5.1 (mono, mapping family 0)
+function opusHead(preSkip: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = 1; // channels
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, OPUS_SAMPLE_RATE, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // channel mapping family
+  return head;
+}
+
+// Resample to OPUS_SAMPLE_RATE, cut or padded to exactly `length` frames
+async function resample(samples: Float32Array, fromRate: number, length: number): Promise<Float32Array> {
+  if (length <= 0) return new Float32Array(0);
+  const context = new OfflineAudioContext(1, length, OPUS_SAMPLE_RATE);
+  const buffer = context.createBuffer(1, samples.length, fromRate);
+  buffer.copyToChannel(samples as Float32Array<ArrayBuffer>, 0);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
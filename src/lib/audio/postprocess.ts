@@ -0,0 +1,122 @@
+/**
+ * Post-processing for vocoder output before it is played or exported.
+ *
+ * Every chunk comes out of the model with its own amount of leading and trailing silence
+ * and its own level, which is audible at chunk boundaries. Trimming, loudness matching and
+ * short edge fades make consecutive chunks sound like one continuous read.
+ */
+
+export interface PostProcessOptions {
+  trimSilence: boolean;
+  normalizeLoudness: boolean;
+  silenceThresholdDb: number; // samples below this level count as silence
+  keepSilenceMs: number; // silence kept on each side after trimming so words are not clipped
+  targetRmsDb: number; // gated RMS level chunks are brought to
+  maxGainDb: number; // limit on both boost and cut, so near-silent chunks are not blown up
+  fadeMs: number; // linear fade at both ends to avoid clicks at the cut points
+}
+
+export const DEFAULT_POST_PROCESS_OPTIONS: PostProcessOptions = {
+  trimSilence: true,
+  normalizeLoudness: true,
+  silenceThresholdDb: -45,
+  keepSilenceMs: 40,
+  targetRmsDb: -20,
+  maxGainDb: 10,
+  fadeMs: 8
+};
+
+const PEAK_LIMIT = 0.97;
+// Loudness is measured over blocks, ignoring the ones quieter than this (like BS.1770 gating)
+const GATE_BLOCK_MS = 100;
+const GATE_DB = -50;
+
+export function postProcessChunk(
+  wav: Float32Array,
+  sampleRate: number,
+  options: PostProcessOptions = DEFAULT_POST_PROCESS_OPTIONS
+): Float32Array {
+  let out = options.trimSilence
+    ? trimSilence(wav, sampleRate, options.silenceThresholdDb, options.keepSilenceMs)
+    : wav;
+  if (out.length === 0) return out;
+  if (options.normalizeLoudness) {
+    out = normalizeLoudness(out, sampleRate, options.targetRmsDb, options.maxGainDb);
+  }
+  applyFades(out, sampleRate, options.fadeMs);
+  return out;
+}
+
+/**
+ * Drop leading and trailing samples below the threshold, keeping `keepMs` of margin.
+ * Returns a view into the input.
+ */
+export function trimSilence(wav: Float32Array, sampleRate: number, thresholdDb: number, keepMs: number): Float32Array {
+  const threshold = dbToGain(thresholdDb);
+  let start = 0;
+  while (start < wav.length && Math.abs(wav[start]) < threshold) start++;
+  if (start === wav.length) return wav.subarray(0, 0);
+  let end = wav.length - 1;
+  while (end > start && Math.abs(wav[end]) < threshold) end--;
+
+  const keep = Math.round((keepMs / 1000) * sampleRate);
+  return wav.subarray(Math.max(0, start - keep), Math.min(wav.length, end + 1 + keep));
+}
+
+/**
+ * Scale a chunk to the target gated RMS level. The gain is capped so the peak stays under
+ * full scale. Returns a new array; the input is left untouched.
+ */
+export function normalizeLoudness(wav: Float32Array, sampleRate: number, targetRmsDb: number, maxGainDb: number): Float32Array {
+  const rms = gatedRms(wav, sampleRate);
+  if (rms === 0) return wav.slice();
+
+  const gainDb = Math.max(-maxGainDb, Math.min(maxGainDb, targetRmsDb - gainToDb(rms)));
+  let gain = dbToGain(gainDb);
+
+  let peak = 0;
+  for (let i = 0; i < wav.length; i++) {
+    const value = Math.abs(wav[i]);
+    if (value > peak) peak = value;
+  }
+  if (peak * gain > PEAK_LIMIT) gain = PEAK_LIMIT / peak;
+
+  const out = new Float32Array(wav.length);
+  for (let i = 0; i < wav.length; i++) {
+    out[i] = wav[i] * gain;
+  }
+  return out;
+}
+
+function gatedRms(wav: Float32Array, sampleRate: number): number {
+  const blockSize = Math.max(1, Math.round((GATE_BLOCK_MS / 1000) * sampleRate));
+  const gate = dbToGain(GATE_DB) ** 2;
+  let sum = 0;
+  let count = 0;
+  for (let start = 0; start < wav.length; start += blockSize) {
+    const end = Math.min(wav.length, start + blockSize);
+    let blockSum = 0;
+    for (let i = start; i < end; i++) blockSum += wav[i] * wav[i];
+    if (blockSum / (end - start) < gate) continue;
+    sum += blockSum;
+    count += end - start;
+  }
+  return count > 0 ? Math.sqrt(sum / count) : 0;
+}
+
+function applyFades(wav: Float32Array, sampleRate: number, fadeMs: number): void {
+  const fade = Math.min(Math.floor(wav.length / 2), Math.round((fadeMs / 1000) * sampleRate));
+  for (let i = 0; i < fade; i++) {
+    const gain = i / fade;
+    wav[i] *= gain;
+    wav[wav.length - 1 - i] *= gain;
+  }
+}
+
+function dbToGain(db: number): number {
+  return 10 ** (db / 20);
+}
+
+function gainToDb(gain: number): number {
+  return 20 * Math.log10(gain);
+}
@@ -0,0 +1,148 @@
+import type { AudioMetadata } from '@shared/types';
+
+/**
+ * Encode mono samples as 16-bit PCM WAV. Title and artist go into a LIST/INFO chunk and
+ * chapters into cue points with labels, which most players show as markers.
+ */
+export function writeWavFile(audioData: ArrayLike<number>, sampleRate: number, metadata: AudioMetadata = {}): ArrayBuffer {
+  const pcm = toPcm16(audioData);
+  const extraChunks = wavMetadataChunks(metadata, sampleRate);
+  const header = wavHeader(pcm.byteLength, sampleRate, extraChunks);
+  const extraSize = extraChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+  const out = new Uint8Array(header.length + pcm.byteLength + extraSize);
+  out.set(header, 0);
+  out.set(new Uint8Array(pcm.buffer), header.length);
+  let offset = header.length + pcm.byteLength;
+  for (const chunk of extraChunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out.buffer;
+}
+
+/**
+ * writeWavFile for audio that arrives in parts: each part is converted to PCM as it comes
+ * and kept as a blob, which the browser can page out, so a long export is never held as
+ * floats all at once.
+ */
+export class WavWriter {
+  private readonly parts: Blob[] = [];
+  private dataSize = 0;
+
+  constructor(private readonly sampleRate: number) {}
+
+  write(samples: ArrayLike<number>): void {
+    const pcm = toPcm16(samples);
+    this.parts.push(new Blob([pcm]));
+    this.dataSize += pcm.byteLength;
+  }
+
+  finish(metadata: AudioMetadata = {}): Blob {
+    const extraChunks = wavMetadataChunks(metadata, this.sampleRate);
+    const header = wavHeader(this.dataSize, this.sampleRate, extraChunks);
+    return new Blob([header, ...this.parts, ...extraChunks] as BlobPart[], { type: 'audio/wav' });
+  }
+}
+
+// RIFF, fmt and data chunk headers for `dataSize` bytes of mono 16-bit PCM followed by `extraChunks`
+function wavHeader(dataSize: number, sampleRate: number, extraChunks: Uint8Array[]): Uint8Array {
+  const numChannels = 1;
+  const bitsPerSample = 16;
+  const byteRate = (sampleRate * numChannels * bitsPerSample) / 8;
+  const blockAlign = (numChannels * bitsPerSample) / 8;
+  const extraSize = extraChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+  const header = new Uint8Array(44);
+  const view = new DataView(header.buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize + extraSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  return header;
+}
+
+function toPcm16(audioData: ArrayLike<number>): Int16Array<ArrayBuffer> {
+  const int16Data = new Int16Array(audioData.length);
+  for (let i = 0; i < audioData.length; i++) {
+    const clamped = Math.max(-1.0, Math.min(1.0, audioData[i]));
+    int16Data[i] = Math.floor(clamped * 32767);
+  }
+  return int16Data;
+}
+
+function wavMetadataChunks(metadata: AudioMetadata, sampleRate: number): Uint8Array[] {
+  const encoder = new TextEncoder();
+
+  // RIFF chunk: 4-char id, little-endian size, payload padded to an even length
+  const riffChunk = (id: string, payload: Uint8Array): Uint8Array => {
+    const padded = payload.length + (payload.length % 2);
+    const chunk = new Uint8Array(8 + padded);
+    const view = new DataView(chunk.buffer);
+    for (let i = 0; i < 4; i++) chunk[i] = id.charCodeAt(i);
+    view.setUint32(4, payload.length, true);
+    chunk.set(payload, 8);
+    return chunk;
+  };
+  const concat = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    return out;
+  };
+  const zstring = (value: string) => concat([encoder.encode(value), new Uint8Array(1)]);
+  const list = (type: string, children: Uint8Array[]) => riffChunk('LIST', concat([encoder.encode(type), ...children]));
+
+  const chunks: Uint8Array[] = [];
+
+  const info: Uint8Array[] = [];
+  if (metadata.title) info.push(riffChunk('INAM', zstring(metadata.title)));
+  if (metadata.artist) info.push(riffChunk('IART', zstring(metadata.artist)));
+  if (info.length > 0) chunks.push(list('INFO', info));
+
+  const chapters = metadata.chapters ?? [];
+  if (chapters.length > 0) {
+    const cues = new Uint8Array(4 + chapters.length * 24);
+    const view = new DataView(cues.buffer);
+    view.setUint32(0, chapters.length, true);
+    chapters.forEach((chapter, i) => {
+      const base = 4 + i * 24;
+      const position = Math.round(chapter.startSeconds * sampleRate);
+      view.setUint32(base, i + 1, true); // cue id, referenced by the label
+      view.setUint32(base + 4, position, true);
+      cues.set(encoder.encode('data'), base + 8);
+      view.setUint32(base + 12, 0, true);
+      view.setUint32(base + 16, 0, true);
+      view.setUint32(base + 20, position, true);
+    });
+    chunks.push(riffChunk('cue ', cues));
+
+    const labels = chapters.map((chapter, i) => {
+      const id = new Uint8Array(4);
+      new DataView(id.buffer).setUint32(0, i + 1, true);
+      return riffChunk('labl', concat([id, zstring(chapter.title)]));
+    });
+    chunks.push(list('adtl', labels));
+  }
+
+  return chunks;
+}
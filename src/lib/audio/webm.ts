@@ -0,0 +1,230 @@
+import type { AudioMetadata } from '@shared/types';
+
+/**
+ * Minimal WebM (Matroska) muxer for a single Opus audio track.
+ *
+ * Everything is built in memory with known sizes, which keeps the writer tiny: an export
+ * is minutes of 64 kbps audio, a few megabytes at most. Chapters and title/artist tags
+ * are written so phone players can show them.
+ */
+
+export interface OpusPacket {
+  data: Uint8Array;
+  timestamp: number; // microseconds
+}
+
+export interface OpusTrack {
+  packets: OpusPacket[];
+  codecPrivate: Uint8Array; // OpusHead
+  preSkip: number; // samples at 48 kHz dropped by the decoder
+  durationSeconds: number;
+}
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Title: 0x7ba9,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Chapters: 0x1043a770,
+  EditionEntry: 0x45b9,
+  EditionUID: 0x45bc,
+  ChapterAtom: 0xb6,
+  ChapterUID: 0x73c4,
+  ChapterTimeStart: 0x91,
+  ChapterDisplay: 0x80,
+  ChapString: 0x85,
+  ChapLanguage: 0x437c,
+  Tags: 0x1254c367,
+  Tag: 0x7373,
+  Targets: 0x63c0,
+  TargetTypeValue: 0x68ca,
+  SimpleTag: 0x67c8,
+  TagName: 0x45a3,
+  TagString: 0x4487,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3
+} as const;
+
+const TIMECODE_SCALE_NS = 1_000_000; // block timecodes are in milliseconds
+const CLUSTER_MS = 5000; // well below the int16 limit of relative block timecodes
+const OPUS_SEEK_PRE_ROLL_NS = 80_000_000;
+const APP_NAME = 'Riddi';
+
+const textEncoder = new TextEncoder();
+
+export function muxOpusWebm(track: OpusTrack, metadata: AudioMetadata = {}): Blob {
+  const info = element(ID.Info, [
+    uintElement(ID.TimecodeScale, TIMECODE_SCALE_NS),
+    floatElement(ID.Duration, track.durationSeconds * 1000),
+    ...(metadata.title ? [stringElement(ID.Title, metadata.title)] : []),
+    stringElement(ID.MuxingApp, APP_NAME),
+    stringElement(ID.WritingApp, APP_NAME)
+  ]);
+
+  const tracks = element(ID.Tracks, [
+    element(ID.TrackEntry, [
+      uintElement(ID.TrackNumber, 1),
+      uintElement(ID.TrackUID, 1),
+      uintElement(ID.TrackType, 2), // audio
+      stringElement(ID.CodecID, 'A_OPUS'),
+      element(ID.CodecPrivate, [track.codecPrivate]),
+      uintElement(ID.CodecDelay, Math.round((track.preSkip / 48000) * 1e9)),
+      uintElement(ID.SeekPreRoll, OPUS_SEEK_PRE_ROLL_NS),
+      element(ID.Audio, [floatElement(ID.SamplingFrequency, 48000), uintElement(ID.Channels, 1)])
+    ])
+  ]);
+
+  const children: Uint8Array[] = [info, tracks];
+
+  const chapters = metadata.chapters ?? [];
+  if (chapters.length > 0) {
+    children.push(
+      element(ID.Chapters, [
+        element(ID.EditionEntry, [
+          uintElement(ID.EditionUID, 1),
+          ...chapters.map((chapter, i) =>
+            element(ID.ChapterAtom, [
+              uintElement(ID.ChapterUID, i + 1),
+              uintElement(ID.ChapterTimeStart, Math.round(chapter.startSeconds * 1e9)),
+              element(ID.ChapterDisplay, [stringElement(ID.ChapString, chapter.title), stringElement(ID.ChapLanguage, 'eng')])
+            ])
+          )
+        ])
+      ])
+    );
+  }
+
+  const tags: Array<[string, string]> = [];
+  if (metadata.title) tags.push(['TITLE', metadata.title]);
+  if (metadata.artist) tags.push(['ARTIST', metadata.artist]);
+  if (tags.length > 0) {
+    children.push(
+      element(ID.Tags, [
+        element(ID.Tag, [
+          element(ID.Targets, [uintElement(ID.TargetTypeValue, 50)]), // 50 = album / movie / episode
+          ...tags.map(([name, value]) => element(ID.SimpleTag, [stringElement(ID.TagName, name), stringElement(ID.TagString, value)]))
+        ])
+      ])
+    );
+  }
+
+  children.push(...clusters(track.packets));
+
+  const header = element(ID.EBML, [
+    uintElement(ID.EBMLVersion, 1),
+    uintElement(ID.EBMLReadVersion, 1),
+    uintElement(ID.EBMLMaxIDLength, 4),
+    uintElement(ID.EBMLMaxSizeLength, 8),
+    stringElement(ID.DocType, 'webm'),
+    uintElement(ID.DocTypeVersion, 4),
+    uintElement(ID.DocTypeReadVersion, 2)
+  ]);
+
+  return new Blob([header, element(ID.Segment, children)] as BlobPart[], { type: 'audio/webm' });
+}
+
+function clusters(packets: OpusPacket[]): Uint8Array[] {
+  const result: Uint8Array[] = [];
+  let blocks: Uint8Array[] = [];
+  let clusterStart = 0;
+
+  const flush = () => {
+    if (blocks.length === 0) return;
+    result.push(element(ID.Cluster, [uintElement(ID.Timecode, clusterStart), ...blocks]));
+    blocks = [];
+  };
+
+  for (const packet of packets) {
+    const timecode = Math.round(packet.timestamp / 1000);
+    if (blocks.length === 0 || timecode - clusterStart >= CLUSTER_MS) {
+      flush();
+      clusterStart = timecode;
+    }
+    const block = new Uint8Array(4 + packet.data.length);
+    block[0] = 0x81; // track number 1 as a one-byte vint
+    new DataView(block.buffer).setInt16(1, timecode - clusterStart);
+    block[3] = 0x80; // keyframe
+    block.set(packet.data, 4);
+    blocks.push(element(ID.SimpleBlock, [block]));
+  }
+  flush();
+  return result;
+}
+
+function element(id: number, payload: Uint8Array[]): Uint8Array {
+  const size = payload.reduce((sum, part) => sum + part.length, 0);
+  const idBytes = unsignedBytes(id);
+  const sizeBytes = vint(size);
+  const out = new Uint8Array(idBytes.length + sizeBytes.length + size);
+  out.set(idBytes, 0);
+  out.set(sizeBytes, idBytes.length);
+  let offset = idBytes.length + sizeBytes.length;
+  for (const part of payload) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+  return element(id, [unsignedBytes(value)]);
+}
+
+function floatElement(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, [bytes]);
+}
+
+function stringElement(id: number, value: string): Uint8Array {
+  return element(id, [textEncoder.encode(value)]);
+}
+
+// Big-endian, as few bytes as possible (at least one). Plain arithmetic since values can exceed 32 bits.
+function unsignedBytes(value: number): Uint8Array {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    bytes.unshift(remaining % 256);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  return Uint8Array.from(bytes);
+}
+
+// EBML variable-length size: the position of the first set bit gives the byte count
+function vint(value: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && value >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
@@ -0,0 +1,179 @@
+/**
+ * WSOLA (waveform similarity overlap-add) time stretching.
+ *
+ * Changes tempo without changing pitch: Hann-windowed frames are taken from the input at
+ * `rate` times the output hop and overlap-added, each frame nudged within a small window to
+ * the position that best continues the previous one. Speech stays intelligible well past 2x.
+ *
+ * The stretcher is streaming so it can run inside an AudioWorklet, where the rate can change
+ * between render quanta; `timeStretch` wraps it for whole buffers (exports).
+ */
+
+const FRAME_MS = 40;
+const SEARCH_MS = 12;
+// Only every Nth sample is compared while searching, which is plenty for speech at 44.1 kHz
+const SEARCH_STRIDE = 4;
+
+export const MIN_STRETCH_RATE = 0.5;
+export const MAX_STRETCH_RATE = 4;
+
+export class TimeStretcher {
+  private readonly frameSize: number;
+  private readonly hop: number;
+  private readonly searchRadius: number;
+  private readonly window: Float32Array;
+  private readonly overlap: Float32Array;
+  private readonly pending: Float32Array; // finished output waiting to be read
+  private pendingStart = 0;
+  private pendingEnd = 0;
+
+  private input: Float32Array = new Float32Array(0);
+  private position = 0; // nominal start of the next analysis frame
+  private previousStart = 0; // where the previous frame was actually taken from
+  private skip = 0; // output samples still to drop at the start (see load)
+  private finished = true;
+  private _rate = 1;
+
+  constructor(sampleRate: number) {
+    this.frameSize = 2 * Math.round((sampleRate * FRAME_MS) / 2000);
+    this.hop = this.frameSize / 2;
+    this.searchRadius = Math.round((sampleRate * SEARCH_MS) / 1000);
+    // Periodic Hann: at 50% overlap the windows sum to exactly one
+    this.window = new Float32Array(this.frameSize);
+    for (let i = 0; i < this.frameSize; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / this.frameSize);
+    }
+    this.overlap = new Float32Array(this.frameSize);
+    this.pending = new Float32Array(this.hop);
+  }
+
+  get rate(): number {
+    return this._rate;
+  }
+
+  set rate(value: number) {
+    this._rate = Math.min(MAX_STRETCH_RATE, Math.max(MIN_STRETCH_RATE, value));
+  }
+
+  /** Input samples played so far; ahead of the output by up to a frame. */
+  get inputPosition(): number {
+    return Math.min(this.input.length, Math.max(0, this.position));
+  }
+
+  /** True once every sample of the loaded input has been read out. */
+  get done(): boolean {
+    return this.finished && this.pendingStart === this.pendingEnd;
+  }
+
+  load(samples: Float32Array): void {
+    this.input = samples;
+    // The first frame starts half a frame early (reading zeros) so the start of the input
+    // is covered by two frames like every other sample; that half frame of output is dropped.
+    this.position = -this.hop;
+    this.previousStart = -this.hop - this.hop;
+    this.skip = this.hop;
+    this.overlap.fill(0);
+    this.pendingStart = 0;
+    this.pendingEnd = 0;
+    this.finished = samples.length === 0;
+  }
+
+  /**
+   * Write up to `count` samples into `out` starting at `offset`. Returns how many were written,
+   * which is less than `count` only when the input is exhausted.
+   */
+  read(out: Float32Array, offset: number, count: number): number {
+    let written = 0;
+    while (written < count) {
+      if (this.pendingStart === this.pendingEnd) {
+        if (this.finished) break;
+        this.produceHop();
+        continue;
+      }
+      const n = Math.min(count - written, this.pendingEnd - this.pendingStart);
+      out.set(this.pending.subarray(this.pendingStart, this.pendingStart + n), offset + written);
+      this.pendingStart += n;
+      written += n;
+    }
+    return written;
+  }
+
+  private produceHop(): void {
+    if (this.position >= this.input.length) {
+      // Input exhausted: what is left in the overlap buffer is the tail of the last frame
+      this.emit(this.overlap.subarray(0, this.hop));
+      this.finished = true;
+      return;
+    }
+
+    const natural = this.previousStart + this.hop;
+    const nominal = Math.round(this.position);
+    const start = Math.abs(natural - nominal) < 1 ? natural : this.bestMatch(natural, nominal);
+
+    const { input, overlap, window, frameSize, hop } = this;
+    for (let i = 0; i < frameSize; i++) {
+      const index = start + i;
+      if (index >= 0 && index < input.length) overlap[i] += input[index] * window[i];
+    }
+
+    this.emit(overlap.subarray(0, hop));
+    overlap.copyWithin(0, hop);
+    overlap.fill(0, frameSize - hop);
+
+    this.previousStart = start;
+    this.position += hop * this._rate;
+  }
+
+  private emit(samples: Float32Array): void {
+    const drop = Math.min(this.skip, samples.length);
+    this.skip -= drop;
+    this.pending.set(samples.subarray(drop));
+    this.pendingStart = 0;
+    this.pendingEnd = samples.length - drop;
+  }
+
+  /**
+   * Frame start within searchRadius of `nominal` whose first half looks most like the natural
+   * continuation of the previous frame (normalized cross-correlation).
+   */
+  private bestMatch(natural: number, nominal: number): number {
+    const { input, hop, searchRadius } = this;
+    const at = (i: number) => (i >= 0 && i < input.length ? input[i] : 0);
+
+    let best = nominal;
+    let bestScore = -Infinity;
+    for (let candidate = nominal - searchRadius; candidate <= nominal + searchRadius; candidate++) {
+      let correlation = 0;
+      let energy = 0;
+      for (let i = 0; i < hop; i += SEARCH_STRIDE) {
+        const value = at(candidate + i);
+        correlation += value * at(natural + i);
+        energy += value * value;
+      }
+      const score = energy > 0 ? correlation / Math.sqrt(energy) : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best;
+  }
+}
+
+/**
+ * Stretch a whole buffer: rate 2 plays twice as fast, at the same pitch.
+ */
+export function timeStretch(samples: Float32Array, sampleRate: number, rate: number): Float32Array {
+  if (rate === 1) return samples;
+  const stretcher = new TimeStretcher(sampleRate);
+  stretcher.rate = rate;
+  stretcher.load(samples);
+
+  const out = new Float32Array(Math.ceil(samples.length / stretcher.rate) + sampleRate);
+  let length = 0;
+  while (!stretcher.done && length < out.length) {
+    length += stretcher.read(out, length, Math.min(4096, out.length - length));
+  }
+  // The last frame runs a little past the end of the input; drop that tail
+  return out.slice(0, Math.min(length, Math.round(samples.length / stretcher.rate)));
+}
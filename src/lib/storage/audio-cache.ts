@@ -0,0 +1,142 @@
+import type { VoiceStyleData } from '@shared/types';
+import { AUDIO_DATA_STORE, AUDIO_STORE, openDatabase, promisifyRequest, transactionDone } from './idb';
+
+/**
+ * Synthesized chunks kept in IndexedDB, so replaying a paragraph or re-reading an article
+ * skips the model. Entries are the raw model output (before trimming, loudness and pauses),
+ * stored as 16-bit PCM, and keyed by a hash of everything that changes that output.
+ *
+ * The cache is capped at AUDIO_CACHE_MAX_BYTES; the least recently used entries go first.
+ */
+
+export const AUDIO_CACHE_MAX_BYTES = 200 * 1024 * 1024;
+
+interface AudioEntry {
+  key: string;
+  bytes: number;
+  sampleRate: number;
+  lastUsed: number;
+}
+
+export interface AudioCacheKeyParts {
+  text: string;
+  style: VoiceStyleData;
+  speed: number;
+  steps: number;
+  seed?: number; // unset means a random seed, so any earlier take will do
+  unknownChars: string;
+  modelVersion: string; // a model update makes old audio stale
+}
+
+// Hashing a style reads every value, so each style object is hashed once
+const styleDigests = new WeakMap<VoiceStyleData, Promise<string>>();
+
+export async function audioCacheKey(parts: AudioCacheKeyParts): Promise<string> {
+  const text = parts.text.normalize('NFC').replace(/\s+/g, ' ').trim();
+  const key = JSON.stringify([
+    parts.modelVersion,
+    await styleDigest(parts.style),
+    parts.speed,
+    parts.steps,
+    parts.seed ?? 'random',
+    parts.unknownChars,
+    text
+  ]);
+  return sha256(new TextEncoder().encode(key));
+}
+
+/**
+ * Cached samples for `key`, or null. A hit marks the entry as recently used.
+ */
+export async function getCachedAudio(key: string): Promise<{ wav: Float32Array; sampleRate: number } | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([AUDIO_STORE, AUDIO_DATA_STORE], 'readwrite');
+  const [entry, pcm] = await Promise.all([
+    promisifyRequest<AudioEntry | undefined>(transaction.objectStore(AUDIO_STORE).get(key)),
+    promisifyRequest<Int16Array | undefined>(transaction.objectStore(AUDIO_DATA_STORE).get(key))
+  ]);
+  if (!entry || !pcm) return null;
+
+  transaction.objectStore(AUDIO_STORE).put({ ...entry, lastUsed: Date.now() } satisfies AudioEntry);
+  await transactionDone(transaction);
+  return { wav: fromPcm16(pcm), sampleRate: entry.sampleRate };
+}
+
+export async function putCachedAudio(key: string, wav: Float32Array, sampleRate: number): Promise<void> {
+  const pcm = toPcm16(wav);
+  const db = await openDatabase();
+  const transaction = db.transaction([AUDIO_STORE, AUDIO_DATA_STORE], 'readwrite');
+  transaction.objectStore(AUDIO_STORE).put({ key, bytes: pcm.byteLength, sampleRate, lastUsed: Date.now() } satisfies AudioEntry);
+  transaction.objectStore(AUDIO_DATA_STORE).put(pcm, key);
+  await transactionDone(transaction);
+  await evictAudio(AUDIO_CACHE_MAX_BYTES);
+}
+
+/**
+ * Total size of the cached audio in bytes.
+ */
+export async function getAudioCacheSize(): Promise<number> {
+  const db = await openDatabase();
+  const entries = await promisifyRequest<AudioEntry[]>(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).getAll());
+  return entries.reduce((sum, entry) => sum + entry.bytes, 0);
+}
+
+export async function clearAudioCache(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([AUDIO_STORE, AUDIO_DATA_STORE], 'readwrite');
+  transaction.objectStore(AUDIO_STORE).clear();
+  transaction.objectStore(AUDIO_DATA_STORE).clear();
+  await transactionDone(transaction);
+}
+
+/**
+ * Delete the least recently used entries until the cache fits in `maxBytes`.
+ */
+async function evictAudio(maxBytes: number): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([AUDIO_STORE, AUDIO_DATA_STORE], 'readwrite');
+  const entries = transaction.objectStore(AUDIO_STORE);
+  const all = await promisifyRequest<AudioEntry[]>(entries.index('lastUsed').getAll());
+  let total = all.reduce((sum, entry) => sum + entry.bytes, 0);
+  for (const entry of all) {
+    if (total <= maxBytes) break;
+    entries.delete(entry.key);
+    transaction.objectStore(AUDIO_DATA_STORE).delete(entry.key);
+    total -= entry.bytes;
+  }
+  await transactionDone(transaction);
+}
+
+function styleDigest(style: VoiceStyleData): Promise<string> {
+  let digest = styleDigests.get(style);
+  if (!digest) {
+    const bytes = new Uint8Array(style.ttl.data.byteLength + style.dp.data.byteLength);
+    bytes.set(new Uint8Array(style.ttl.data.buffer, style.ttl.data.byteOffset, style.ttl.data.byteLength));
+    bytes.set(new Uint8Array(style.dp.data.buffer, style.dp.data.byteOffset, style.dp.data.byteLength), style.ttl.data.byteLength);
+    digest = sha256(bytes);
+    styleDigests.set(style, digest);
+  }
+  return digest;
+}
+
+async function sha256(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(hash, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toPcm16(wav: Float32Array): Int16Array {
+  const pcm = new Int16Array(wav.length);
+  for (let i = 0; i < wav.length; i++) {
+    const sample = Math.max(-1, Math.min(1, wav[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+}
+
+function fromPcm16(pcm: Int16Array): Float32Array {
+  const wav = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    wav[i] = pcm[i] < 0 ? pcm[i] / 0x8000 : pcm[i] / 0x7fff;
+  }
+  return wav;
+}
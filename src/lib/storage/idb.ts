@@ -0,0 +1,70 @@
+const DB_NAME = 'riddi';
+const DB_VERSION = 2;
+
+export const VOICES_STORE = 'voices';
+// Synthesized audio (lib/storage/audio-cache): small entries with the LRU bookkeeping, and the samples
+export const AUDIO_STORE = 'audio';
+export const AUDIO_DATA_STORE = 'audio-data';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the extension's IndexedDB database. Shared by the popup and the offscreen document,
+ * which run on the same extension origin.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(VOICES_STORE)) {
+        db.createObjectStore(VOICES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        db.createObjectStore(AUDIO_STORE, { keyPath: 'key' }).createIndex('lastUsed', 'lastUsed');
+        db.createObjectStore(AUDIO_DATA_STORE);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version (after an extension update) upgrade instead of being blocked by us
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return promisifyRequest(run(store));
+}
@@ -0,0 +1,30 @@
+import type { BuiltinVoiceId, CustomVoice, CustomVoiceId, VoiceId } from '@shared/types';
+import { VOICES_STORE, withStore } from './idb';
+
+export const BUILTIN_VOICE_IDS: BuiltinVoiceId[] = ['M1', 'M2', 'M3', 'M4', 'M5', 'F1', 'F2', 'F3', 'F4', 'F5'];
+
+export function isCustomVoiceId(voice: VoiceId): voice is CustomVoiceId {
+  return voice.startsWith('custom:');
+}
+
+export function createCustomVoiceId(): CustomVoiceId {
+  return `custom:${crypto.randomUUID()}`;
+}
+
+export async function listCustomVoices(): Promise<CustomVoice[]> {
+  const voices = await withStore<CustomVoice[]>(VOICES_STORE, 'readonly', (store) => store.getAll());
+  return voices.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function getCustomVoice(id: CustomVoiceId): Promise<CustomVoice | null> {
+  const voice = await withStore<CustomVoice | undefined>(VOICES_STORE, 'readonly', (store) => store.get(id));
+  return voice ?? null;
+}
+
+export async function saveCustomVoice(voice: CustomVoice): Promise<void> {
+  await withStore(VOICES_STORE, 'readwrite', (store) => store.put(voice));
+}
+
+export async function deleteCustomVoice(id: CustomVoiceId): Promise<void> {
+  await withStore(VOICES_STORE, 'readwrite', (store) => store.delete(id));
+}
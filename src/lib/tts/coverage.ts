@@ -0,0 +1,138 @@
+import type { UnknownCharStrategy } from '@shared/types';
+
+/**
+ * Handling of characters the model has no embedding for.
+ *
+ * The unicode indexer only covers basic Latin letters, digits and common punctuation; any
+ * other character would reach the model as -1 and come out as noise. Before text is encoded
+ * each unsupported character is replaced according to the chosen strategy:
+ *
+ * - transliterate: fold to ASCII (æ → ae, Cyrillic and Greek → Latin), drop the rest
+ * - spell: fold Latin letters and punctuation, name runs of other scripts ("Chinese text")
+ * - drop: remove the characters
+ * - refuse: throw, so the caller can report which characters are missing
+ */
+
+export const DEFAULT_UNKNOWN_CHAR_STRATEGY: UnknownCharStrategy = 'transliterate';
+
+// Characters reported per request; a CJK page would otherwise list thousands
+const MAX_REPORTED = 40;
+
+// Latin letters that do not decompose under NFKD, and punctuation outside the indexer
+const LATIN_FOLD: Record<string, string> = {
+  ß: 'ss', ẞ: 'SS', æ: 'ae', Æ: 'AE', œ: 'oe', Œ: 'OE', ø: 'o', Ø: 'O', ł: 'l', Ł: 'L',
+  đ: 'd', Đ: 'D', ð: 'd', Ð: 'D', þ: 'th', Þ: 'Th', ı: 'i', ŋ: 'ng', Ŋ: 'Ng', ħ: 'h', Ħ: 'H',
+  ĸ: 'k', ſ: 's',
+  '…': '...', '«': '"', '»': '"', '„': '"', '“': '"', '”': '"', '‹': "'", '›': "'", '‚': "'",
+  '¡': '', '¿': '', '·': ' ', '•': ', ', '+': ' plus ', '=': ' equals ', '<': ' ', '>': ' ',
+  '~': ' ', '^': '', '{': ' ', '}': ' ', '*': ' ', '§': ' section ', '°': ' degrees ',
+  '€': ' euros ', '¥': ' yen ', '。': '. ', '，': ', ', '、': ', ', '？': '? ',
+  '！': '! ', '：': ': ', '；': '; '
+};
+
+// Scientific-style romanization, enough to make names and loanwords recognisable
+const SCRIPT_TRANSLITERATION: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', ґ: 'g', д: 'd', е: 'e', ё: 'yo', є: 'ye', ж: 'zh', з: 'z',
+  и: 'i', і: 'i', ї: 'yi', й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r',
+  с: 's', т: 't', у: 'u', ў: 'w', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch',
+  ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya', ђ: 'dj', ј: 'j', љ: 'lj', њ: 'nj', ћ: 'c', џ: 'dz',
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l',
+  μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f',
+  χ: 'ch', ψ: 'ps', ω: 'o'
+};
+
+// Han and kana share one run; kana anywhere in it makes it Japanese rather than Chinese
+const SCRIPTS: Array<[RegExp, string]> = [
+  [/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u, 'CJK'],
+  [/\p{Script=Hangul}/u, 'Korean'],
+  [/\p{Script=Cyrillic}/u, 'Cyrillic'],
+  [/\p{Script=Greek}/u, 'Greek'],
+  [/\p{Script=Arabic}/u, 'Arabic'],
+  [/\p{Script=Hebrew}/u, 'Hebrew'],
+  [/\p{Script=Devanagari}/u, 'Devanagari'],
+  [/\p{Script=Thai}/u, 'Thai']
+];
+
+export type CharacterCheck = (codePoint: number) => boolean;
+
+/**
+ * Distinct unsupported characters in order of appearance, at most MAX_REPORTED of them.
+ */
+export function findUnsupportedCharacters(text: string, isSupported: CharacterCheck): string[] {
+  const found = new Set<string>();
+  for (const char of text) {
+    if (found.size >= MAX_REPORTED) break;
+    if (!isSupported(char.codePointAt(0)!) && !/\s/.test(char)) found.add(char);
+  }
+  return [...found];
+}
+
+export function replaceUnsupportedCharacters(
+  text: string,
+  isSupported: CharacterCheck,
+  strategy: UnknownCharStrategy
+): string {
+  const supported = (value: string) => Array.from(value).every((char) => /\s/.test(char) || isSupported(char.codePointAt(0)!));
+
+  if (strategy === 'refuse') {
+    const unsupported = findUnsupportedCharacters(text, isSupported);
+    if (unsupported.length > 0) {
+      throw new Error(`Text contains characters the voice cannot read: ${unsupported.join(' ')}`);
+    }
+    return text;
+  }
+
+  let out = '';
+  let run = ''; // consecutive characters of one script, for 'spell'
+  let runScript: string | null = null;
+  const flushRun = () => {
+    if (runScript) out += ` ${scriptName(run, runScript)} text `;
+    run = '';
+    runScript = null;
+  };
+
+  for (const char of text) {
+    // Spaces, punctuation and combining marks between words of the same script stay inside the run
+    if (runScript && /[\s\p{P}\p{M}]/u.test(char)) {
+      run += char;
+      continue;
+    }
+    if (/\s/.test(char) || isSupported(char.codePointAt(0)!)) {
+      flushRun();
+      out += char;
+      continue;
+    }
+    if (strategy === 'drop') continue;
+
+    const folded = LATIN_FOLD[char] ?? fold(char, strategy);
+    if (folded !== null && supported(folded)) {
+      flushRun();
+      out += folded;
+      continue;
+    }
+
+    const script = strategy === 'spell' ? SCRIPTS.find(([pattern]) => pattern.test(char))?.[1] : undefined;
+    if (!script) continue;
+    if (runScript !== script) flushRun();
+    runScript = script;
+    run += char;
+  }
+  flushRun();
+
+  return out;
+}
+
+function fold(char: string, strategy: UnknownCharStrategy): string | null {
+  // Combining marks left over from NFKD (grave, ring, ...) carry no sound of their own
+  if (/\p{M}/u.test(char)) return '';
+  if (strategy !== 'transliterate') return null;
+  const lower = char.toLowerCase();
+  const latin = SCRIPT_TRANSLITERATION[lower];
+  if (latin === undefined) return null;
+  return lower === char ? latin : latin.charAt(0).toUpperCase() + latin.slice(1);
+}
+
+function scriptName(run: string, script: string): string {
+  if (script !== 'CJK') return script;
+  return /[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(run) ? 'Japanese' : 'Chinese';
+}
@@ -0,0 +1,28 @@
+/**
+ * Predicts how long chunks that have not been synthesized yet will play, for position and
+ * remaining-time reporting. The estimate is the seconds per character of the chunks
+ * synthesized so far (pauses included), scaled by each chunk's SSML speed.
+ */
+
+// Roughly what the built-in voices produce at speed 1, used until something was measured
+const DEFAULT_SECONDS_PER_CHARACTER = 0.065;
+
+export class DurationEstimator {
+  private seconds = 0;
+  private characters = 0;
+
+  /**
+   * Record a synthesized chunk: its text, its duration in seconds and the speed it was
+   * synthesized at.
+   */
+  record(text: string, seconds: number, speed = 1): void {
+    if (text.length === 0 || seconds <= 0) return;
+    this.seconds += seconds * speed;
+    this.characters += text.length;
+  }
+
+  estimate(text: string, speed = 1): number {
+    const perCharacter = this.characters > 0 ? this.seconds / this.characters : DEFAULT_SECONDS_PER_CHARACTER;
+    return (text.length * perCharacter) / speed;
+  }
+}
@@ -1,4 +1,33 @@
 import * as ort from 'onnxruntime-web';
+import { DEFAULT_UNKNOWN_CHAR_STRATEGY, findUnsupportedCharacters, replaceUnsupportedCharacters } from './coverage';
+import { TextNormalizer } from './normalize';
+import { createGaussian, createRandom } from './random';
+import { chunkText } from './segment';
+import { fetchModel, getModelSize } from './model-files';
+import type {
+  ExecutionBackend,
+  ExecutionProvider,
+  ModelLoadProgress,
+  UnknownCharStrategy,
+  VoiceStyleData
+} from '@shared/types';
+
+export {
+  TextNormalizer,
+  defaultNormalizerRules,
+  isHeadingLike,
+  numberToWords,
+  ordinalToWords,
+  yearToWords,
+  type NormalizerRule
+} from './normalize';
+export { applyLexicon, compileLexiconRule, validateLexiconRule } from './lexicon';
+export { DEFAULT_UNKNOWN_CHAR_STRATEGY } from './coverage';
+export { createRandom } from './random';
+export { blendVoiceStyles, checkVoiceStyleDims, parseVoiceStyle } from './style';
+export { chunkText, splitIntoChunks } from './segment';
+export { writeWavFile } from '@lib/audio/wav';
+export { isSsml, parseSsml, type SsmlSegment } from './ssml';
 
 export interface TTSConfig {
   ae: {
@@ -14,15 +43,32 @@ export interface TTSConfig {
   [key: string]: unknown;
 }
 
-export type ModelProgressCallback = (name: string, current: number, total: number) => void;
+export type ModelProgressCallback = (progress: ModelLoadProgress) => void;
+
+export const MODEL_FILES = [
+  { key: 'dp', name: 'Duration Predictor', file: 'duration_predictor.onnx' },
+  { key: 'textEnc', name: 'Text Encoder', file: 'text_encoder.onnx' },
+  { key: 'vectorEst', name: 'Vector Estimator', file: 'vector_estimator.onnx' },
+  { key: 'vocoder', name: 'Vocoder', file: 'vocoder.onnx' }
+] as const;
+
+export type ModelKey = (typeof MODEL_FILES)[number]['key'];
+
+const WARM_UP_TEXT = 'Hello.';
 export type StepProgressCallback = (current: number, total: number) => void;
-export type ChunkReadyCallback = (chunkIndex: number, totalChunks: number, wav: number[], durationSeconds: number, chunkText: string) => void;
+export type ChunkReadyCallback = (chunkIndex: number, totalChunks: number, wav: Float32Array, durationSeconds: number, chunkText: string) => void;
 
 export class UnicodeProcessor {
-  constructor(private readonly indexer: number[]) {}
+  // What to do with characters the indexer has no entry for (see coverage.ts)
+  unknownCharStrategy: UnknownCharStrategy = DEFAULT_UNKNOWN_CHAR_STRATEGY;
+
+  constructor(
+    private readonly indexer: number[],
+    readonly normalizer: TextNormalizer = new TextNormalizer()
+  ) {}
 
   call(textList: string[]): { textIds: number[][]; textMask: number[][][] } {
-    const processedTexts = textList.map((text) => this.preprocessText(text));
+    const processedTexts = textList.map((text) => this.resolveUnsupported(this.preprocessText(text)));
 
     const textIdsLengths = processedTexts.map((text) => text.length);
     const maxLen = Math.max(...textIdsLengths);
@@ -40,9 +86,32 @@ export class UnicodeProcessor {
     return { textIds, textMask };
   }
 
+  isSupported(codePoint: number): boolean {
+    return codePoint < this.indexer.length && this.indexer[codePoint] !== -1;
+  }
+
+  /**
+   * Characters in `text` that the model cannot read, as they are after preprocessing.
+   */
+  findUnsupported(text: string): string[] {
+    return findUnsupportedCharacters(this.preprocessText(text), (codePoint) => this.isSupported(codePoint));
+  }
+
+  private resolveUnsupported(text: string): string {
+    const resolved = replaceUnsupportedCharacters(text, (codePoint) => this.isSupported(codePoint), this.unknownCharStrategy)
+      .replace(/\s+/g, ' ')
+      .trim();
+    // A chunk written entirely in an unsupported script may have nothing left
+    return resolved || '.';
+  }
+
   preprocessText(text: string): string {
     let normalized = text.normalize('NFKD');
 
+    // Spell out numbers, dates, currency and units before symbols like '/' and '#' are stripped below.
+    // The offscreen page normalizes chunks before sizing them; a second pass leaves them as they are.
+    normalized = this.normalizer.normalize(normalized);
+
     const emojiPattern =
       /[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F700}-\u{1F77F}\u{1F780}-\u{1F7FF}\u{1F800}-\u{1F8FF}\u{1F900}-\u{1F9FF}\u{1FA00}-\u{1FA6F}\u{1FA70}-\u{1FAFF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}\u{1F1E6}-\u{1F1FF}]+/gu;
     normalized = normalized.replace(emojiPattern, '');
@@ -124,6 +193,10 @@ export class UnicodeProcessor {
   }
 }
 
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
 export class Style {
   constructor(public readonly ttl: ort.Tensor, public readonly dp: ort.Tensor) {}
 }
@@ -133,44 +206,196 @@ export type DebugCallback = (message: string, detail?: unknown) => void;
 export class TextToSpeech {
   readonly sampleRate: number;
   debugCallback: DebugCallback | null = null;
+  // Execution provider each session was created with
+  readonly providers: Record<ModelKey, ExecutionProvider> = { dp: 'wasm', textEnc: 'wasm', vectorEst: 'wasm', vocoder: 'wasm' };
+  // Models that produced NaN or Infinity since the last warmUp()
+  private readonly nonFiniteModels = new Set<ModelKey>();
 
   constructor(
     private readonly cfgs: TTSConfig,
     private readonly textProcessor: UnicodeProcessor,
-    private readonly dpOrt: ort.InferenceSession,
-    private readonly textEncOrt: ort.InferenceSession,
-    private readonly vectorEstOrt: ort.InferenceSession,
-    private readonly vocoderOrt: ort.InferenceSession
+    private dpOrt: ort.InferenceSession,
+    private textEncOrt: ort.InferenceSession,
+    private vectorEstOrt: ort.InferenceSession,
+    private vocoderOrt: ort.InferenceSession
   ) {
     this.sampleRate = cfgs.ae.sample_rate;
   }
 
+  /**
+   * Run one short synthesis and return the models whose output was not finite (or all
+   * models on a non-wasm provider, if the run failed outright).
+   */
+  async warmUp(style: Style): Promise<ModelKey[]> {
+    this.nonFiniteModels.clear();
+    try {
+      await this._infer([WARM_UP_TEXT], style, 1, 1, null);
+    } catch (error) {
+      this.log('warm-up-failed', { error: String(error) });
+      return MODEL_FILES.map(({ key }) => key).filter((key) => this.providers[key] !== 'wasm');
+    }
+    return [...this.nonFiniteModels];
+  }
+
+  /**
+   * Swap in a new session for one model, releasing the old one.
+   */
+  async replaceSession(key: ModelKey, session: ort.InferenceSession, provider: ExecutionProvider): Promise<void> {
+    const previous = this.getSession(key);
+    switch (key) {
+      case 'dp':
+        this.dpOrt = session;
+        break;
+      case 'textEnc':
+        this.textEncOrt = session;
+        break;
+      case 'vectorEst':
+        this.vectorEstOrt = session;
+        break;
+      case 'vocoder':
+        this.vocoderOrt = session;
+        break;
+    }
+    this.providers[key] = provider;
+    await previous.release();
+  }
+
+  async release(): Promise<void> {
+    await Promise.all(MODEL_FILES.map(({ key }) => this.getSession(key).release()));
+  }
+
+  private getSession(key: ModelKey): ort.InferenceSession {
+    switch (key) {
+      case 'dp':
+        return this.dpOrt;
+      case 'textEnc':
+        return this.textEncOrt;
+      case 'vectorEst':
+        return this.vectorEstOrt;
+      case 'vocoder':
+        return this.vocoderOrt;
+    }
+  }
+
+  private checkFinite(key: ModelKey, data: ArrayLike<number>): void {
+    for (let i = 0; i < data.length; i++) {
+      if (!Number.isFinite(data[i])) {
+        this.nonFiniteModels.add(key);
+        this.log('non-finite-output', { model: key });
+        return;
+      }
+    }
+  }
+
   private log(message: string, detail?: unknown): void {
     this.debugCallback?.(message, detail);
   }
 
   /**
-   * Split text into chunks for TTS processing
+   * Bail out between pipeline stages once the signal is aborted, releasing the tensors still held.
    */
-  getChunks(text: string): string[] {
-    return chunkText(text);
+  private throwIfAborted(signal: AbortSignal | undefined, stage: string, tensors: ort.Tensor[] = []): void {
+    if (!signal?.aborted) return;
+    for (const tensor of tensors) {
+      tensor.dispose();
+    }
+    this.log('infer-aborted', { stage });
+    throw signal.reason ?? new DOMException('Synthesis aborted', 'AbortError');
+  }
+
+  get unknownCharStrategy(): UnknownCharStrategy {
+    return this.textProcessor.unknownCharStrategy;
+  }
+
+  set unknownCharStrategy(strategy: UnknownCharStrategy) {
+    this.textProcessor.unknownCharStrategy = strategy;
+  }
+
+  /**
+   * Distinct characters across `texts` that the model has no embedding for.
+   */
+  findUnsupportedCharacters(texts: string[]): string[] {
+    return [...new Set(texts.flatMap((text) => this.textProcessor.findUnsupported(text)))];
+  }
+
+  /**
+   * Split text into chunks for TTS processing. `locale` is the text's language (BCP 47).
+   */
+  getChunks(text: string, locale?: string): string[] {
+    return chunkText(text, undefined, locale);
   }
 
   /**
-   * Synthesize a single text chunk
+   * Synthesize a single text chunk.
+   * Passing a seed makes the output reproducible for the same text, voice and steps.
+   * Aborting the signal stops synthesis at the next model stage or denoising step.
    */
   async synthesizeChunk(
     chunkText: string,
     style: Style,
     totalStep: number,
     speed = 1.05,
-    progressCallback: StepProgressCallback | null = null
-  ): Promise<{ wav: number[]; duration: number }> {
-    this.log('synthesize-single-chunk', { textLength: chunkText.length });
-    const { wav, duration } = await this._infer([chunkText], style, totalStep, speed, progressCallback);
+    progressCallback: StepProgressCallback | null = null,
+    seed?: number,
+    signal?: AbortSignal
+  ): Promise<{ wav: Float32Array; duration: number }> {
+    this.log('synthesize-single-chunk', { textLength: chunkText.length, seed });
+    const { wav, duration } = await this._infer([chunkText], style, totalStep, speed, progressCallback, seed, signal);
     return { wav, duration: duration[0] };
   }
 
+  /**
+   * Synthesize several chunks in one batched inference and split the waveform back per chunk
+   * using each item's predicted duration. Shorter items are padded to the longest one, so
+   * batches should be made of chunks with similar lengths.
+   */
+  async synthesizeBatch(
+    chunkTexts: string[],
+    style: Style,
+    totalStep: number,
+    speed = 1.05,
+    progressCallback: StepProgressCallback | null = null,
+    seed?: number,
+    signal?: AbortSignal
+  ): Promise<Array<{ wav: Float32Array; duration: number }>> {
+    const bsz = chunkTexts.length;
+    this.log('synthesize-batch', { batchSize: bsz, textLengths: chunkTexts.map((t) => t.length), seed });
+
+    const batchStyle = this.repeatStyle(style, bsz);
+    try {
+      const { wav, duration } = await this._infer(chunkTexts, batchStyle, totalStep, speed, progressCallback, seed, signal);
+      const stride = wav.length / bsz;
+      return duration.map((itemDuration, b) => {
+        const length = Math.min(stride, Math.floor(itemDuration * this.sampleRate));
+        return { wav: wav.slice(b * stride, b * stride + length), duration: itemDuration };
+      });
+    } finally {
+      if (batchStyle !== style) {
+        batchStyle.ttl.dispose();
+        batchStyle.dp.dispose();
+      }
+    }
+  }
+
+  /**
+   * Tile a single-speaker style along the batch dimension.
+   */
+  private repeatStyle(style: Style, bsz: number): Style {
+    if (style.ttl.dims[0] === bsz) return style;
+    if (style.ttl.dims[0] !== 1) {
+      throw new Error(`Cannot repeat a style with batch size ${style.ttl.dims[0]} to ${bsz}`);
+    }
+    const repeat = (tensor: ort.Tensor): ort.Tensor => {
+      const data = tensor.data as Float32Array;
+      const tiled = new Float32Array(data.length * bsz);
+      for (let b = 0; b < bsz; b++) {
+        tiled.set(data, b * data.length);
+      }
+      return new ort.Tensor('float32', tiled, [bsz, ...tensor.dims.slice(1)]);
+    };
+    return new Style(repeat(style.ttl), repeat(style.dp));
+  }
+
   /**
    * Streaming TTS - synthesizes text chunk by chunk, calling onChunkReady as each chunk completes.
    * This allows playback to start immediately while subsequent chunks are still being synthesized.
@@ -230,8 +455,8 @@ export class TextToSpeech {
     speed = 1.05,
     silenceDuration = 0.3,
     progressCallback: StepProgressCallback | null = null
-  ): Promise<{ wav: number[]; duration: number[] }> {
-    const wavChunks: number[][] = [];
+  ): Promise<{ wav: Float32Array; duration: number[] }> {
+    const wavChunks: Float32Array[] = [];
     let totalDuration = 0;
     const silenceLen = Math.floor(silenceDuration * this.sampleRate);
 
@@ -250,24 +475,20 @@ export class TextToSpeech {
       }
     );
 
-    // Concatenate all chunks efficiently
+    // Concatenate all chunks efficiently; the silence gaps are already zero-filled
     this.log('concatenating-chunks', { numChunks: wavChunks.length });
     const totalLength = wavChunks.reduce((sum, chunk, idx) => {
       return sum + chunk.length + (idx < wavChunks.length - 1 ? silenceLen : 0);
     }, 0);
     
-    const wavCat = new Array<number>(totalLength);
+    const wavCat = new Float32Array(totalLength);
     let offset = 0;
     
     for (let i = 0; i < wavChunks.length; i++) {
-      const chunk = wavChunks[i];
-      for (let j = 0; j < chunk.length; j++) {
-        wavCat[offset++] = chunk[j];
-      }
+      wavCat.set(wavChunks[i], offset);
+      offset += wavChunks[i].length;
       if (i < wavChunks.length - 1) {
-        for (let j = 0; j < silenceLen; j++) {
-          wavCat[offset++] = 0;
-        }
+        offset += silenceLen;
       }
     }
 
@@ -280,9 +501,11 @@ export class TextToSpeech {
     style: Style,
     totalStep: number,
     speed = 1.05,
-    progressCallback: StepProgressCallback | null = null
-  ): Promise<{ wav: number[]; duration: number[] }> {
-    return this._infer(textList, style, totalStep, speed, progressCallback);
+    progressCallback: StepProgressCallback | null = null,
+    seed?: number,
+    signal?: AbortSignal
+  ): Promise<{ wav: Float32Array; duration: number[] }> {
+    return this._infer(textList, style, totalStep, speed, progressCallback, seed, signal);
   }
 
   private async _infer(
@@ -290,22 +513,31 @@ export class TextToSpeech {
     style: Style,
     totalStep: number,
     speed: number,
-    progressCallback: StepProgressCallback | null
-  ): Promise<{ wav: number[]; duration: number[] }> {
+    progressCallback: StepProgressCallback | null,
+    seed?: number,
+    signal?: AbortSignal
+  ): Promise<{ wav: Float32Array; duration: number[] }> {
     const bsz = textList.length;
+    this.throwIfAborted(signal, 'start');
 
     this.log('infer-start', { bsz, textLengths: textList.map(t => t.length) });
 
     const { textIds, textMask } = this.textProcessor.call(textList);
-    this.log('text-processed', { textIdsShape: [bsz, textIds[0]?.length], textMaskShape: [bsz, 1, textMask[0]?.[0]?.length] });
-
-    const textIdsFlat = new BigInt64Array(textIds.flat().map((x) => BigInt(x)));
-    const textIdsShape: [number, number] = [bsz, textIds[0].length];
-    const textIdsTensor = new ort.Tensor('int64', textIdsFlat, textIdsShape);
+    const textLen = textIds[0].length;
+    this.log('text-processed', { textIdsShape: [bsz, textLen], textMaskShape: [bsz, 1, textLen] });
 
-    const textMaskFlat = new Float32Array(textMask.flat(2));
-    const textMaskShape: [number, number, number] = [bsz, 1, textMask[0][0].length];
-    const textMaskTensor = new ort.Tensor('float32', textMaskFlat, textMaskShape);
+    const textIdsFlat = new BigInt64Array(bsz * textLen);
+    const textMaskFlat = new Float32Array(bsz * textLen);
+    for (let b = 0; b < bsz; b++) {
+      const ids = textIds[b];
+      const mask = textMask[b][0];
+      for (let j = 0; j < textLen; j++) {
+        textIdsFlat[b * textLen + j] = BigInt(ids[j]);
+        textMaskFlat[b * textLen + j] = mask[j];
+      }
+    }
+    const textIdsTensor = new ort.Tensor('int64', textIdsFlat, [bsz, textLen]);
+    const textMaskTensor = new ort.Tensor('float32', textMaskFlat, [bsz, 1, textLen]);
 
     this.log('running-duration-predictor');
     const dpOutputs = await this.dpOrt.run({
@@ -313,12 +545,14 @@ export class TextToSpeech {
       style_dp: style.dp,
       text_mask: textMaskTensor
     });
-    const duration = Array.from(dpOutputs.duration.data) as number[];
+    const duration = Array.from(dpOutputs.duration.data as Float32Array);
+    this.checkFinite('dp', duration);
     
     // Dispose duration predictor outputs
     dpOutputs.duration.dispose();
     
     this.log('duration-predictor-done', { duration });
+    this.throwIfAborted(signal, 'duration-predictor', [textIdsTensor, textMaskTensor]);
 
     for (let i = 0; i < duration.length; i++) {
       duration[i] /= speed;
@@ -331,23 +565,25 @@ export class TextToSpeech {
       text_mask: textMaskTensor
     });
     const textEmb = textEncOutputs.text_emb as ort.Tensor;
+    this.checkFinite('textEnc', textEmb.data as Float32Array);
     this.log('text-encoder-done', { textEmbShape: textEmb.dims });
 
     // Dispose input tensors that are no longer needed
     textIdsTensor.dispose();
+    this.throwIfAborted(signal, 'text-encoder', [textMaskTensor, textEmb]);
 
-    let { xt, latentMask } = this.sampleNoisyLatent(
+    const { xt, latentMask, latentDim, latentLen } = this.sampleNoisyLatent(
       duration,
       this.sampleRate,
       this.cfgs.ae.base_chunk_size,
       this.cfgs.ttl.chunk_compress_factor,
-      this.cfgs.ttl.latent_dim
+      this.cfgs.ttl.latent_dim,
+      seed
     );
-    this.log('noisy-latent-sampled', { xtShape: [bsz, xt[0]?.length, xt[0]?.[0]?.length] });
+    const xtShape: [number, number, number] = [bsz, latentDim, latentLen];
+    this.log('noisy-latent-sampled', { xtShape });
 
-    const latentMaskFlat = new Float32Array(latentMask.flat(2));
-    const latentMaskShape: [number, number, number] = [bsz, 1, latentMask[0][0].length];
-    const latentMaskTensor = new ort.Tensor('float32', latentMaskFlat, latentMaskShape);
+    const latentMaskTensor = new ort.Tensor('float32', latentMask, [bsz, 1, latentLen]);
 
     const totalStepArray = new Float32Array(bsz).fill(totalStep);
     const totalStepTensor = new ort.Tensor('float32', totalStepArray, [bsz]);
@@ -359,9 +595,8 @@ export class TextToSpeech {
       const currentStepArray = new Float32Array(bsz).fill(step);
       const currentStepTensor = new ort.Tensor('float32', currentStepArray, [bsz]);
 
-      const xtFlat = new Float32Array(xt.flat(2));
-      const xtShape: [number, number, number] = [bsz, xt[0].length, xt[0][0].length];
-      const xtTensor = new ort.Tensor('float32', xtFlat, xtShape);
+      // The tensor wraps xt without copying; it is only read during run()
+      const xtTensor = new ort.Tensor('float32', xt, xtShape);
 
       const vectorEstOutputs = await this.vectorEstOrt.run({
         noisy_latent: xtTensor,
@@ -379,32 +614,28 @@ export class TextToSpeech {
       
       this.log('vector-est-step-done', { step: step + 1 });
 
-      const denoised = Array.from(vectorEstOutputs.denoised_latent.data) as number[];
-      
-      // Dispose vector estimator output
-      vectorEstOutputs.denoised_latent.dispose();
+      const denoised = vectorEstOutputs.denoised_latent.data as Float32Array;
 
       // Check for NaN/Infinity in denoised output
-      const hasInvalid = denoised.some((v) => !Number.isFinite(v));
-      if (hasInvalid) {
-        this.log('vector-est-invalid-output', { step: step + 1, hasNaN: denoised.some(Number.isNaN), hasInf: denoised.some(v => !Number.isFinite(v) && !Number.isNaN(v)) });
+      let nanCount = 0;
+      let infCount = 0;
+      for (let i = 0; i < denoised.length; i++) {
+        const v = denoised[i];
+        if (Number.isNaN(v)) nanCount++;
+        else if (!Number.isFinite(v)) infCount++;
       }
-
-      const latentDim = xt[0].length;
-      const latentLen = xt[0][0].length;
-      xt = [];
-      let idx = 0;
-      for (let b = 0; b < bsz; b++) {
-        const batch: number[][] = [];
-        for (let d = 0; d < latentDim; d++) {
-          const row: number[] = [];
-          for (let t = 0; t < latentLen; t++) {
-            row.push(denoised[idx++]);
-          }
-          batch.push(row);
-        }
-        xt.push(batch);
+      if (nanCount > 0 || infCount > 0) {
+        this.nonFiniteModels.add('vectorEst');
+        this.log('vector-est-invalid-output', { step: step + 1, hasNaN: nanCount > 0, hasInf: infCount > 0 });
       }
+
+      // Reuse the latent buffer for the next step instead of reallocating it
+      xt.set(denoised);
+
+      // Dispose vector estimator output
+      vectorEstOutputs.denoised_latent.dispose();
+
+      this.throwIfAborted(signal, `vector-estimator-step-${step + 1}`, [textMaskTensor, latentMaskTensor, totalStepTensor, textEmb]);
     }
 
     // Dispose remaining tensors before vocoder
@@ -414,20 +645,19 @@ export class TextToSpeech {
     textEmb.dispose();
 
     this.log('running-vocoder');
-    const finalXtFlat = new Float32Array(xt.flat(2));
-    const finalXtShape: [number, number, number] = [bsz, xt[0].length, xt[0][0].length];
-    const finalXtTensor = new ort.Tensor('float32', finalXtFlat, finalXtShape);
+    const finalXtTensor = new ort.Tensor('float32', xt, xtShape);
     
-    this.log('vocoder-tensor-created', { shape: finalXtShape, dataLength: finalXtFlat.length });
+    this.log('vocoder-tensor-created', { shape: xtShape, dataLength: xt.length });
 
     // Run vocoder with timeout detection
     const VOCODER_TIMEOUT_MS = 120000; // 2 minutes max per chunk
     let vocoderOutputs: Awaited<ReturnType<typeof this.vocoderOrt.run>>;
+    let vocoderTimer: ReturnType<typeof setTimeout> | undefined;
     
     try {
       const vocoderPromise = this.vocoderOrt.run({ latent: finalXtTensor });
       const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error(`Vocoder timed out after ${VOCODER_TIMEOUT_MS}ms`)), VOCODER_TIMEOUT_MS);
+        vocoderTimer = setTimeout(() => reject(new Error(`Vocoder timed out after ${VOCODER_TIMEOUT_MS}ms`)), VOCODER_TIMEOUT_MS);
       });
       
       vocoderOutputs = await Promise.race([vocoderPromise, timeoutPromise]);
@@ -435,14 +665,19 @@ export class TextToSpeech {
       finalXtTensor.dispose();
       this.log('vocoder-error', { error: String(vocoderError) });
       throw vocoderError;
+    } finally {
+      clearTimeout(vocoderTimer);
     }
     
     // Dispose vocoder input
     finalXtTensor.dispose();
     
     this.log('vocoder-done');
+    this.throwIfAborted(signal, 'vocoder', [vocoderOutputs.wav_tts]);
 
-    const wav = Array.from(vocoderOutputs.wav_tts.data) as number[];
+    // Keep the typed array itself; disposing the tensor only drops ORT's reference to it
+    const wav = vocoderOutputs.wav_tts.data as Float32Array;
+    this.checkFinite('vocoder', wav);
     
     // Dispose vocoder output
     vocoderOutputs.wav_tts.dispose();
@@ -452,13 +687,17 @@ export class TextToSpeech {
     return { wav, duration };
   }
 
+  /**
+   * Sample the initial latent as flat [bsz, latentDim, latentLen] buffers, with padding frames zeroed.
+   */
   private sampleNoisyLatent(
     duration: number[],
     sampleRate: number,
     baseChunkSize: number,
     chunkCompress: number,
-    latentDim: number
-  ): { xt: number[][][]; latentMask: number[][][] } {
+    latentDim: number,
+    seed?: number
+  ): { xt: Float32Array; latentMask: Float32Array; latentDim: number; latentLen: number } {
     const bsz = duration.length;
     const maxDur = Math.max(...duration);
 
@@ -469,45 +708,38 @@ export class TextToSpeech {
     const latentLen = Math.floor((wavLenMax + chunkSize - 1) / chunkSize);
     const latentDimVal = latentDim * chunkCompress;
 
-    const xt: number[][][] = [];
-    for (let b = 0; b < bsz; b++) {
-      const batch: number[][] = [];
-      for (let d = 0; d < latentDimVal; d++) {
-        const row: number[] = [];
-        for (let t = 0; t < latentLen; t++) {
-          const u1 = Math.max(0.0001, Math.random());
-          const u2 = Math.random();
-          const val = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-          row.push(val);
-        }
-        batch.push(row);
-      }
-      xt.push(batch);
-    }
-
     const latentLengths = wavLengths.map((len) => Math.floor((len + chunkSize - 1) / chunkSize));
     const latentMask = this.lengthToMask(latentLengths, latentLen);
 
+    const xt = new Float32Array(bsz * latentDimVal * latentLen);
     for (let b = 0; b < bsz; b++) {
-      for (let d = 0; d < latentDimVal; d++) {
-        for (let t = 0; t < latentLen; t++) {
-          xt[b][d][t] *= latentMask[b][0][t];
+      const base = b * latentDimVal * latentLen;
+      const validLen = Math.min(latentLengths[b], latentLen);
+
+      // Each item gets its own generator, filled frame by frame, so a seeded item draws
+      // the same noise whether it is synthesized alone or padded inside a batch.
+      // Frames past validLen stay zero, which is the same as multiplying by the mask.
+      const gaussian = createGaussian(seed === undefined ? Math.random : createRandom(seed));
+      for (let t = 0; t < validLen; t++) {
+        for (let d = 0; d < latentDimVal; d++) {
+          xt[base + d * latentLen + t] = gaussian();
         }
       }
     }
 
-    return { xt, latentMask };
+    return { xt, latentMask, latentDim: latentDimVal, latentLen };
   }
 
-  private lengthToMask(lengths: number[], maxLen?: number): number[][][] {
+  /**
+   * Flat [bsz, 1, maxLen] mask with ones over each item's valid length.
+   */
+  private lengthToMask(lengths: number[], maxLen?: number): Float32Array {
     const actualMaxLen = maxLen ?? Math.max(...lengths);
-    return lengths.map((len) => {
-      const row = new Array<number>(actualMaxLen).fill(0.0);
-      for (let j = 0; j < Math.min(len, actualMaxLen); j++) {
-        row[j] = 1.0;
-      }
-      return [row];
+    const mask = new Float32Array(lengths.length * actualMaxLen);
+    lengths.forEach((len, b) => {
+      mask.fill(1.0, b * actualMaxLen, b * actualMaxLen + Math.min(len, actualMaxLen));
     });
+    return mask;
   }
 }
 
@@ -556,6 +788,16 @@ export async function loadVoiceStyle(voiceStylePaths: string[], verbose = false)
   return new Style(ttlTensor, dpTensor);
 }
 
+/**
+ * Build a style from already parsed tensor data (see parseVoiceStyle).
+ */
+export function createStyle(data: VoiceStyleData): Style {
+  return new Style(
+    new ort.Tensor('float32', data.ttl.data, data.ttl.dims),
+    new ort.Tensor('float32', data.dp.data, data.dp.dims)
+  );
+}
+
 export async function loadCfgs(onnxDir: string): Promise<TTSConfig> {
   const response = await fetch(`${onnxDir}/tts.json`);
   const cfgs = (await response.json()) as TTSConfig;
@@ -568,129 +810,94 @@ export async function loadTextProcessor(onnxDir: string): Promise<UnicodeProcess
   return new UnicodeProcessor(indexer);
 }
 
-export async function loadOnnx(onnxPath: string, options: ort.InferenceSession.SessionOptions): Promise<ort.InferenceSession> {
-  return ort.InferenceSession.create(onnxPath, options);
+export async function loadOnnx(model: Uint8Array, options: ort.InferenceSession.SessionOptions): Promise<ort.InferenceSession> {
+  return ort.InferenceSession.create(model, options);
 }
 
+/**
+ * Whether this browser can give us a WebGPU adapter at all.
+ */
+export async function isWebGpuAvailable(): Promise<boolean> {
+  // WebGPU types are not part of the DOM lib yet
+  const gpu = (navigator as Navigator & { gpu?: { requestAdapter(): Promise<unknown> } }).gpu;
+  if (!gpu) return false;
+  try {
+    return (await gpu.requestAdapter()) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a session on the provider the backend asks for. 'auto' tries WebGPU first and
+ * falls back to WASM when the session cannot be created there.
+ */
+export async function createSession(
+  model: Uint8Array,
+  sessionOptions: ort.InferenceSession.SessionOptions,
+  backend: ExecutionBackend
+): Promise<{ session: ort.InferenceSession; provider: ExecutionProvider }> {
+  if (backend !== 'wasm') {
+    try {
+      return { session: await loadOnnx(model, { ...sessionOptions, executionProviders: ['webgpu'] }), provider: 'webgpu' };
+    } catch (error) {
+      if (backend === 'webgpu') throw error;
+    }
+  }
+  return { session: await loadOnnx(model, { ...sessionOptions, executionProviders: ['wasm'] }), provider: 'wasm' };
+}
+
+/**
+ * Load the four models and the text processor. Progress is reported in bytes while reading
+ * and once more per model when its session is created. The backend picks the execution provider;
+ * 'auto' uses WebGPU when an adapter is available.
+ */
 export async function loadTextToSpeech(
   onnxDir: string,
   sessionOptions: ort.InferenceSession.SessionOptions = {},
-  progressCallback: ModelProgressCallback | null = null
+  progressCallback: ModelProgressCallback | null = null,
+  backend: ExecutionBackend = 'wasm'
 ): Promise<{ textToSpeech: TextToSpeech; cfgs: TTSConfig }> {
   const cfgs = await loadCfgs(onnxDir);
 
-  const dpPath = `${onnxDir}/duration_predictor.onnx`;
-  const textEncPath = `${onnxDir}/text_encoder.onnx`;
-  const vectorEstPath = `${onnxDir}/vector_estimator.onnx`;
-  const vocoderPath = `${onnxDir}/vocoder.onnx`;
+  const webGpu = backend !== 'wasm' && (await isWebGpuAvailable());
+  if (backend === 'webgpu' && !webGpu) {
+    throw new Error('WebGPU is not available in this browser');
+  }
+  const sessionBackend: ExecutionBackend = webGpu ? backend : 'wasm';
 
-  const modelPaths = [
-    { name: 'Duration Predictor', path: dpPath },
-    { name: 'Text Encoder', path: textEncPath },
-    { name: 'Vector Estimator', path: vectorEstPath },
-    { name: 'Vocoder', path: vocoderPath }
-  ];
+  const sizes = await Promise.all(MODEL_FILES.map(({ file }) => getModelSize(`${onnxDir}/${file}`)));
+  const totalBytes = sizes.every((size) => size > 0) ? sizes.reduce((sum, size) => sum + size, 0) : 0;
 
   const sessions: ort.InferenceSession[] = [];
-  for (let i = 0; i < modelPaths.length; i++) {
-    progressCallback?.(modelPaths[i].name, i + 1, modelPaths.length);
-    const session = await loadOnnx(modelPaths[i].path, sessionOptions);
+  const providers: ExecutionProvider[] = [];
+  let doneBytes = 0;
+  for (let i = 0; i < MODEL_FILES.length; i++) {
+    const report = (stage: ModelLoadProgress['stage'], loadedBytes: number) =>
+      progressCallback?.({
+        stage,
+        model: MODEL_FILES[i].name,
+        modelIndex: i + 1,
+        modelCount: MODEL_FILES.length,
+        loadedBytes,
+        totalBytes
+      });
+
+    const bytes = await fetchModel(`${onnxDir}/${MODEL_FILES[i].file}`, (loaded) => report('fetch', doneBytes + loaded));
+    doneBytes += bytes.byteLength;
+    report('compile', doneBytes);
+    const { session, provider } = await createSession(bytes, sessionOptions, sessionBackend);
     sessions.push(session);
+    providers.push(provider);
   }
 
   const [dpOrt, textEncOrt, vectorEstOrt, vocoderOrt] = sessions;
 
   const textProcessor = await loadTextProcessor(onnxDir);
   const textToSpeech = new TextToSpeech(cfgs, textProcessor, dpOrt, textEncOrt, vectorEstOrt, vocoderOrt);
+  MODEL_FILES.forEach(({ key }, i) => {
+    textToSpeech.providers[key] = providers[i];
+  });
 
   return { textToSpeech, cfgs };
 }
-
-export function chunkText(text: string, maxLen = 300): string[] {
-  if (typeof text !== 'string') {
-    throw new Error(`chunkText expects a string, got ${typeof text}`);
-  }
-
-  // Split by double newlines to get paragraphs (each paragraph = one DOM block)
-  const paragraphs = text.trim().split(/\n\s*\n+/).filter((p) => p.trim());
-
-  const chunks: string[] = [];
-
-  for (let paragraph of paragraphs) {
-    paragraph = paragraph.trim();
-    if (!paragraph) continue;
-
-    // Short paragraphs (likely headings or short content) - keep as single chunk
-    // This ensures headings are read separately from the following paragraph
-    if (paragraph.length <= maxLen) {
-      chunks.push(paragraph);
-      continue;
-    }
-
-    // Long paragraphs - split by sentences
-    const sentences = paragraph.split(
-      /(?<!Mr\.|Mrs\.|Ms\.|Dr\.|Prof\.|Sr\.|Jr\.|Ph\.D\.|etc\.|e\.g\.|i\.e\.|vs\.|Inc\.|Ltd\.|Co\.|Corp\.|St\.|Ave\.|Blvd\.)(?<!\b[A-Z]\.)(?<=[.!?])\s+/
-    );
-
-    let currentChunk = '';
-
-    for (const sentence of sentences) {
-      if (currentChunk.length + sentence.length + 1 <= maxLen) {
-        currentChunk += (currentChunk ? ' ' : '') + sentence;
-      } else {
-        if (currentChunk) {
-          chunks.push(currentChunk.trim());
-        }
-        currentChunk = sentence;
-      }
-    }
-
-    if (currentChunk) {
-      chunks.push(currentChunk.trim());
-    }
-  }
-
-  return chunks;
-}
-
-export function writeWavFile(audioData: number[], sampleRate: number): ArrayBuffer {
-  const numChannels = 1;
-  const bitsPerSample = 16;
-  const byteRate = (sampleRate * numChannels * bitsPerSample) / 8;
-  const blockAlign = (numChannels * bitsPerSample) / 8;
-  const dataSize = audioData.length * 2;
-
-  const buffer = new ArrayBuffer(44 + dataSize);
-  const view = new DataView(buffer);
-
-  const writeString = (offset: number, value: string) => {
-    for (let i = 0; i < value.length; i++) {
-      view.setUint8(offset + i, value.charCodeAt(i));
-    }
-  };
-
-  writeString(0, 'RIFF');
-  view.setUint32(4, 36 + dataSize, true);
-  writeString(8, 'WAVE');
-  writeString(12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, byteRate, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, bitsPerSample, true);
-  writeString(36, 'data');
-  view.setUint32(40, dataSize, true);
-
-  const int16Data = new Int16Array(audioData.length);
-  for (let i = 0; i < audioData.length; i++) {
-    const clamped = Math.max(-1.0, Math.min(1.0, audioData[i]));
-    int16Data[i] = Math.floor(clamped * 32767);
-  }
-
-  const dataView = new Uint8Array(buffer, 44);
-  dataView.set(new Uint8Array(int16Data.buffer));
-
-  return buffer;
-}
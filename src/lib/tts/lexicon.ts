@@ -0,0 +1,54 @@
+import type { LexiconRule } from '@shared/types';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the RegExp for a lexicon rule. Returns null for rules that cannot be compiled.
+ */
+export function compileLexiconRule(rule: LexiconRule): RegExp | null {
+  if (!rule.pattern) return null;
+  const flags = rule.caseSensitive ? 'gu' : 'giu';
+  try {
+    if (rule.kind === 'regex') {
+      return new RegExp(rule.pattern, flags);
+    }
+    // \b only knows ASCII word characters, so use lookarounds to support accented words
+    return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(rule.pattern.trim())}(?![\\p{L}\\p{N}_])`, flags);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Describe why a rule is invalid, or return null if it can be applied.
+ */
+export function validateLexiconRule(rule: LexiconRule): string | null {
+  if (!rule.pattern.trim()) return 'Pattern is empty';
+  if (rule.kind === 'regex') {
+    try {
+      new RegExp(rule.pattern, rule.caseSensitive ? 'gu' : 'giu');
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid regular expression';
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply enabled lexicon rules in order. Invalid rules are skipped.
+ */
+export function applyLexicon(text: string, rules: LexiconRule[]): string {
+  let result = text;
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const regex = compileLexiconRule(rule);
+    if (!regex) continue;
+    // Word rules replace literally; only regex rules expand $1-style references
+    result = rule.kind === 'regex'
+      ? result.replace(regex, rule.replacement)
+      : result.replace(regex, () => rule.replacement);
+  }
+  return result;
+}
@@ -0,0 +1,52 @@
+/**
+ * Reading the bundled model files with byte progress, so loading can show how far it got.
+ */
+
+export type ByteProgressCallback = (loadedBytes: number, totalBytes: number) => void;
+
+/**
+ * Size of a model file in bytes, from a HEAD request. 0 when unknown.
+ */
+export async function getModelSize(url: string): Promise<number> {
+  const response = await fetch(url, { method: 'HEAD' }).catch(() => null);
+  return Number(response?.headers.get('content-length')) || 0;
+}
+
+/**
+ * Read a model file.
+ */
+export async function fetchModel(url: string, onProgress: ByteProgressCallback | null = null): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load model ${url}: ${response.status} ${response.statusText}`);
+  }
+  return readBody(response, onProgress);
+}
+
+async function readBody(response: Response, onProgress: ByteProgressCallback | null): Promise<Uint8Array> {
+  const total = Number(response.headers.get('content-length')) || 0;
+  if (!response.body || !onProgress) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    onProgress?.(bytes.byteLength, bytes.byteLength);
+    return bytes;
+  }
+
+  const reader = response.body.getReader();
+  const parts: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+    loaded += value.byteLength;
+    onProgress(loaded, Math.max(total, loaded));
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+  return bytes;
+}
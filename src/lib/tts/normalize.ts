@@ -0,0 +1,544 @@
+/**
+ * Text normalization for synthesis.
+ *
+ * The model reads characters, not digits or symbols, so numbers, dates, currency and
+ * units have to be spelled out before the text reaches the unicode indexer. Rules run
+ * in order; earlier rules handle the more specific patterns (dates before plain numbers).
+ */
+
+export interface NormalizerRule {
+  name: string;
+  apply: (text: string) => string;
+}
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion', 'quadrillion'];
+
+const ORDINAL_IRREGULAR: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth'
+};
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+const MONTH_ALIASES: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, sept: 8, oct: 9, nov: 10, dec: 11
+};
+const MONTH_PATTERN =
+  '(January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept|Sep|Oct|Nov|Dec)';
+
+const CURRENCIES: Record<string, { major: [string, string]; minor: [string, string] | null }> = {
+  $: { major: ['dollar', 'dollars'], minor: ['cent', 'cents'] },
+  USD: { major: ['dollar', 'dollars'], minor: ['cent', 'cents'] },
+  '€': { major: ['euro', 'euros'], minor: ['cent', 'cents'] },
+  EUR: { major: ['euro', 'euros'], minor: ['cent', 'cents'] },
+  '£': { major: ['pound', 'pounds'], minor: ['penny', 'pence'] },
+  GBP: { major: ['pound', 'pounds'], minor: ['penny', 'pence'] },
+  '¥': { major: ['yen', 'yen'], minor: null },
+  JPY: { major: ['yen', 'yen'], minor: null }
+};
+
+const SCALE_SUFFIXES: Record<string, string> = {
+  k: 'thousand', K: 'thousand', thousand: 'thousand',
+  m: 'million', M: 'million', mn: 'million', million: 'million',
+  b: 'billion', B: 'billion', bn: 'billion', billion: 'billion',
+  t: 'trillion', T: 'trillion', tn: 'trillion', trillion: 'trillion'
+};
+
+// [singular, plural]
+const UNITS: Record<string, [string, string]> = {
+  mm: ['millimeter', 'millimeters'],
+  cm: ['centimeter', 'centimeters'],
+  m: ['meter', 'meters'],
+  km: ['kilometer', 'kilometers'],
+  ft: ['foot', 'feet'],
+  mi: ['mile', 'miles'],
+  mg: ['milligram', 'milligrams'],
+  g: ['gram', 'grams'],
+  kg: ['kilogram', 'kilograms'],
+  lb: ['pound', 'pounds'],
+  lbs: ['pound', 'pounds'],
+  oz: ['ounce', 'ounces'],
+  ml: ['milliliter', 'milliliters'],
+  mL: ['milliliter', 'milliliters'],
+  l: ['liter', 'liters'],
+  L: ['liter', 'liters'],
+  KB: ['kilobyte', 'kilobytes'],
+  MB: ['megabyte', 'megabytes'],
+  GB: ['gigabyte', 'gigabytes'],
+  TB: ['terabyte', 'terabytes'],
+  Kbps: ['kilobit per second', 'kilobits per second'],
+  Mbps: ['megabit per second', 'megabits per second'],
+  Gbps: ['gigabit per second', 'gigabits per second'],
+  Hz: ['hertz', 'hertz'],
+  kHz: ['kilohertz', 'kilohertz'],
+  MHz: ['megahertz', 'megahertz'],
+  GHz: ['gigahertz', 'gigahertz'],
+  W: ['watt', 'watts'],
+  kW: ['kilowatt', 'kilowatts'],
+  kWh: ['kilowatt hour', 'kilowatt hours'],
+  V: ['volt', 'volts'],
+  mph: ['mile per hour', 'miles per hour'],
+  'km/h': ['kilometer per hour', 'kilometers per hour'],
+  kph: ['kilometer per hour', 'kilometers per hour'],
+  '°C': ['degree Celsius', 'degrees Celsius'],
+  '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+  '°': ['degree', 'degrees'],
+  ms: ['millisecond', 'milliseconds'],
+  // NFKD folds the micro sign into the Greek letter mu
+  'μs': ['microsecond', 'microseconds'],
+  ns: ['nanosecond', 'nanoseconds'],
+  sec: ['second', 'seconds'],
+  min: ['minute', 'minutes'],
+  hr: ['hour', 'hours'],
+  hrs: ['hour', 'hours'],
+  px: ['pixel', 'pixels']
+};
+
+const ROMAN_KEYWORDS =
+  '(Chapter|Part|Section|Book|Volume|Vol\\.|Act|Scene|Phase|Stage|Episode|Season|Article|Appendix|World War|Level|Round|Type|Class)';
+
+/**
+ * Spell out a non-negative integer given as a digit string.
+ * Numbers too long to have a name are read digit by digit.
+ */
+export function cardinalToWords(digits: string): string {
+  const clean = digits.replace(/^0+(?=\d)/, '');
+  if (clean.length > SCALES.length * 3) {
+    return digitsToWords(clean);
+  }
+
+  if (clean === '0') return ONES[0];
+
+  const groups: number[] = [];
+  for (let end = clean.length; end > 0; end -= 3) {
+    groups.unshift(Number(clean.slice(Math.max(0, end - 3), end)));
+  }
+
+  const words: string[] = [];
+  groups.forEach((group, i) => {
+    if (group === 0) return;
+    const scale = SCALES[groups.length - 1 - i];
+    words.push(scale ? `${below1000(group)} ${scale}` : below1000(group));
+  });
+  return words.join(' ');
+}
+
+function below1000(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = [];
+  if (hundreds > 0) parts.push(`${ONES[hundreds]} hundred`);
+  if (rest > 0) parts.push(below100(rest));
+  return parts.join(' ');
+}
+
+function below100(n: number): string {
+  if (n < 20) return ONES[n];
+  const tens = TENS[Math.floor(n / 10)];
+  const ones = n % 10;
+  return ones ? `${tens}-${ONES[ones]}` : tens;
+}
+
+export function digitsToWords(digits: string): string {
+  return Array.from(digits, (d) => ONES[Number(d)] ?? d).join(' ');
+}
+
+export function ordinalToWords(digits: string): string {
+  return toOrdinal(cardinalToWords(digits));
+}
+
+function toOrdinal(words: string): string {
+  const match = /^(.*?)([a-z]+)$/.exec(words);
+  if (!match) return words;
+  const [, head, last] = match;
+  if (ORDINAL_IRREGULAR[last]) return head + ORDINAL_IRREGULAR[last];
+  if (last.endsWith('y')) return `${head}${last.slice(0, -1)}ieth`;
+  return `${head}${last}th`;
+}
+
+/**
+ * Read a number the way people say years: 1990 -> "nineteen ninety", 2005 -> "two thousand five".
+ */
+export function yearToWords(year: number): string {
+  if (year < 1000 || year > 2999 || (year >= 2000 && year < 2010)) {
+    return cardinalToWords(String(year));
+  }
+  const hi = Math.floor(year / 100);
+  const lo = year % 100;
+  if (lo === 0) return `${cardinalToWords(String(hi))} hundred`;
+  if (lo < 10) return `${cardinalToWords(String(hi))} oh ${ONES[lo]}`;
+  return `${cardinalToWords(String(hi))} ${below100(lo)}`;
+}
+
+function pluralizeDecade(words: string): string {
+  if (words.endsWith('y')) return `${words.slice(0, -1)}ies`;
+  return `${words}s`;
+}
+
+/**
+ * Spell out a number with optional thousands separators and decimal part.
+ */
+export function numberToWords(value: string): string {
+  const negative = value.startsWith('-');
+  const [intPart, fracPart] = value.replace(/^-/, '').replace(/,/g, '').split('.');
+  let words = cardinalToWords(intPart || '0');
+  if (fracPart) {
+    words += ` point ${digitsToWords(fracPart)}`;
+  }
+  return negative ? `minus ${words}` : words;
+}
+
+function isSingular(value: string): boolean {
+  return value.replace(/,/g, '') === '1';
+}
+
+function romanToNumber(roman: string): number | null {
+  if (!/^M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/.test(roman) || !roman) return null;
+  const values: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 };
+  let total = 0;
+  for (let i = 0; i < roman.length; i++) {
+    const current = values[roman[i]];
+    const next = values[roman[i + 1]] ?? 0;
+    total += current < next ? -current : current;
+  }
+  return total;
+}
+
+/**
+ * Read a date aloud. `month` is zero-based; a null year leaves it out.
+ */
+export function dateToWords(year: number | null, month: number, day: number, dayFirst = false): string {
+  const monthName = MONTHS[month];
+  const dayWords = ordinalToWords(String(day));
+  const base = dayFirst ? `the ${dayWords} of ${monthName}` : `${monthName} ${dayWords}`;
+  return year === null ? base : `${base}, ${yearToWords(year)}`;
+}
+
+function expandYear(value: string): number {
+  if (value.length === 4) return Number(value);
+  const short = Number(value);
+  return short < 50 ? 2000 + short : 1900 + short;
+}
+
+function isValidDate(month: number, day: number): boolean {
+  return month >= 0 && month < 12 && day >= 1 && day <= 31;
+}
+
+/**
+ * Short lines without closing punctuation, which is how headings usually look once extracted.
+ */
+export function isHeadingLike(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed.length > 0 && trimmed.length <= 80 && !/[.!?;,]$/.test(trimmed);
+}
+
+const NUMBER = '\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?';
+// A minus sign only starts a word; "5-10" is a range and "COVID-19" a name
+const SIGNED_NUMBER = `(?:(?<![\\p{L}\\d])-)?(?:${NUMBER})`;
+// Words after which a four-digit number is a year: "in 1500", "since 1990", "by 2030"
+const YEAR_CONTEXT = '(?:in|since|by|until|till|before|after|around|circa|from|during)';
+
+const dateRule: NormalizerRule = {
+  name: 'date',
+  apply: (text) =>
+    text
+      // ISO 8601: 2025-03-14
+      .replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, y: string, m: string, d: string) => {
+        const month = Number(m) - 1;
+        const day = Number(d);
+        return isValidDate(month, day) ? dateToWords(Number(y), month, day) : match;
+      })
+      // Numeric dates: 3/14/2025, 14/3/2025, 14.03.2025
+      .replace(/\b(\d{1,2})([/.])(\d{1,2})\2(\d{4}|\d{2})\b/g, (match, a: string, sep: string, b: string, y: string) => {
+        if (sep === '.' && y.length !== 4) return match;
+        const first = Number(a);
+        const second = Number(b);
+        const dayFirst = sep === '.' || (first > 12 && second <= 12);
+        const month = (dayFirst ? second : first) - 1;
+        const day = dayFirst ? first : second;
+        return isValidDate(month, day) ? dateToWords(expandYear(y), month, day) : match;
+      })
+      // March 14, 2025 / Mar. 14th
+      .replace(
+        new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'g'),
+        (match, name: string, d: string, y: string | undefined) => {
+          const month = MONTH_ALIASES[name.slice(0, 4).toLowerCase()] ?? MONTH_ALIASES[name.slice(0, 3).toLowerCase()];
+          const day = Number(d);
+          if (!isValidDate(month, day)) return match;
+          return dateToWords(y ? Number(y) : null, month, day);
+        }
+      )
+      // 14 March 2025 / 14th of March
+      .replace(
+        new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\b(?:,?\\s+(\\d{4})\\b)?`, 'g'),
+        (match, d: string, name: string, y: string | undefined) => {
+          const month = MONTH_ALIASES[name.slice(0, 4).toLowerCase()] ?? MONTH_ALIASES[name.slice(0, 3).toLowerCase()];
+          const day = Number(d);
+          if (!isValidDate(month, day)) return match;
+          return dateToWords(y ? Number(y) : null, month, day, true);
+        }
+      )
+};
+
+const timeRule: NormalizerRule = {
+  name: 'time',
+  apply: (text) => {
+    const meridiem = (value: string) => (value.toLowerCase().startsWith('a') ? 'A M' : 'P M');
+    const clock = (h: string, m: string) => {
+      const hour = cardinalToWords(h);
+      const minutes = Number(m);
+      if (minutes === 0) return hour;
+      if (minutes < 10) return `${hour} oh ${ONES[minutes]}`;
+      return `${hour} ${below100(minutes)}`;
+    };
+    return text
+      // A trailing dot in "p.m." usually doubles as the sentence end, so keep it
+      .replace(/\b(\d{1,2}):([0-5]\d)\s?([AaPp])\.?[Mm](\.?)(?![\p{L}])/gu, (_m, h: string, m: string, ap: string, dot: string) =>
+        `${clock(h, m)} ${meridiem(ap)}${dot}`
+      )
+      .replace(/\b(1[0-2]|0?[1-9])\s?([AaPp])\.?[Mm](\.?)(?![\p{L}])/gu, (_m, h: string, ap: string, dot: string) =>
+        `${cardinalToWords(h)} ${meridiem(ap)}${dot}`
+      )
+      .replace(/\b([01]?\d|2[0-3]):([0-5]\d)\b(?!:\d)/g, (_m, h: string, m: string) => {
+        if (Number(m) === 0) {
+          return Number(h) > 12 ? `${cardinalToWords(h)} hundred` : `${cardinalToWords(h)} o'clock`;
+        }
+        return clock(h, m);
+      });
+  }
+};
+
+const currencyRule: NormalizerRule = {
+  name: 'currency',
+  apply: (text) => {
+    const scalePattern = '(thousand|million|billion|trillion|bn|mn|tn|[kKmMbBtT])(?![\\p{L}])';
+    const speak = (symbol: string, amount: string, suffix: string | undefined): string => {
+      const currency = CURRENCIES[symbol];
+      const plain = amount.replace(/,/g, '');
+      if (suffix) {
+        return `${numberToWords(plain)} ${SCALE_SUFFIXES[suffix]} ${currency.major[1]}`;
+      }
+      const [intPart, fracPart = ''] = plain.split('.');
+      if (fracPart.length > 2 || (fracPart && !currency.minor)) {
+        return `${numberToWords(plain)} ${currency.major[1]}`;
+      }
+      const cents = fracPart ? Number(fracPart.padEnd(2, '0')) : 0;
+      const majorWords = `${cardinalToWords(intPart || '0')} ${isSingular(intPart) ? currency.major[0] : currency.major[1]}`;
+      if (!cents || !currency.minor) return majorWords;
+      const minorWords = `${cardinalToWords(String(cents))} ${cents === 1 ? currency.minor[0] : currency.minor[1]}`;
+      return Number(intPart) === 0 ? minorWords : `${majorWords} and ${minorWords}`;
+    };
+    return text
+      .replace(
+        new RegExp(`([$€£¥])\\s?(${NUMBER})(?:\\s?${scalePattern})?`, 'gu'),
+        (_m, symbol: string, amount: string, suffix: string | undefined) => speak(symbol, amount, suffix)
+      )
+      .replace(
+        new RegExp(`(${NUMBER})(?:\\s?${scalePattern})?\\s?(USD|EUR|GBP|JPY)\\b`, 'gu'),
+        (_m, amount: string, suffix: string | undefined, code: string) => speak(code, amount, suffix)
+      );
+  }
+};
+
+const percentRule: NormalizerRule = {
+  name: 'percent',
+  apply: (text) =>
+    text.replace(new RegExp(`(${SIGNED_NUMBER})\\s?%`, 'gu'), (_m, value: string) => `${numberToWords(value)} percent`)
+};
+
+const decadeRule: NormalizerRule = {
+  name: 'decade',
+  apply: (text) =>
+    text
+      .replace(/\b(1[1-9]\d0|20\d0)'?s\b/g, (_m, y: string) => pluralizeDecade(yearToWords(Number(y))))
+      .replace(/(^|[\s(])['’]?([2-9]0)'?s\b/g, (_m, lead: string, d: string) => `${lead}${pluralizeDecade(below100(Number(d)))}`)
+};
+
+const ordinalRule: NormalizerRule = {
+  name: 'ordinal',
+  apply: (text) =>
+    text.replace(/\b(\d{1,3}(?:,\d{3})+|\d+)(st|nd|rd|th)\b/gi, (_m, n: string) => ordinalToWords(n.replace(/,/g, '')))
+};
+
+const unitRule: NormalizerRule = {
+  name: 'unit',
+  apply: (text) => {
+    const keys = Object.keys(UNITS)
+      .sort((a, b) => b.length - a.length)
+      .map((key) => key.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'));
+    const pattern = new RegExp(`(${SIGNED_NUMBER})\\s?(${keys.join('|')})(?![\\p{L}\\d])`, 'gu');
+    return text.replace(pattern, (_m, value: string, unit: string) => {
+      const [singular, plural] = UNITS[unit];
+      return `${numberToWords(value)} ${isSingular(value) ? singular : plural}`;
+    });
+  }
+};
+
+const fractionRule: NormalizerRule = {
+  name: 'fraction',
+  apply: (text) => {
+    const speak = (n: string, d: string): string => {
+      const plural = Number(n) !== 1;
+      let name: string;
+      if (d === '2') name = plural ? 'halves' : 'half';
+      else if (d === '4') name = plural ? 'quarters' : 'quarter';
+      else name = ordinalToWords(d) + (plural ? 's' : '');
+      return `${cardinalToWords(n)} ${name}`;
+    };
+    return text
+      // NFKD turns "2½" into "21⁄2"; vulgar fractions always have a one-digit numerator
+      .replace(/(\d*)(\d)⁄(\d{1,2})\b/g, (_m, whole: string, n: string, d: string) =>
+        whole ? `${cardinalToWords(whole)} and ${speak(n, d)}` : speak(n, d)
+      )
+      // Only proper fractions with small denominators, so "24/7" and "9/11" are left alone
+      .replace(/(?<![\d/])(\d)\s?\/\s?(\d{1,2})(?![\d/])/g, (match, n: string, d: string) => {
+        const denominator = Number(d);
+        return denominator >= 2 && denominator <= 10 && Number(n) < denominator ? speak(n, d) : match;
+      });
+  }
+};
+
+const romanRule: NormalizerRule = {
+  name: 'roman',
+  apply: (text) => {
+    let result = text.replace(new RegExp(`\\b${ROMAN_KEYWORDS}\\s+([IVXLCDM]+)\\b`, 'g'), (match, keyword: string, roman: string) => {
+      const value = romanToNumber(roman);
+      return value ? `${keyword} ${cardinalToWords(String(value))}` : match;
+    });
+
+    // Numbered headings ("IV. The Return") and bare numerals in short heading lines.
+    // Only I/V/X numerals are converted here to avoid eating acronyms like CD or MD.
+    const headingLike = isHeadingLike(result);
+    result = result.replace(/^(\s*)([IVX]+)([.:)])(?=\s)/, (match, lead: string, roman: string, punct: string) => {
+      const value = romanToNumber(roman);
+      if (!value || (roman.length < 2 && !headingLike)) return match;
+      return `${lead}${capitalize(cardinalToWords(String(value)))}${punct}`;
+    });
+    if (headingLike) {
+      result = result.replace(/\b([IVX]{2,})\b/g, (match, roman: string) => {
+        const value = romanToNumber(roman);
+        return value ? cardinalToWords(String(value)) : match;
+      });
+    }
+    return result;
+  }
+};
+
+// Only with year context, so "1500 people" stays a count; dates and decades have their own rules
+const yearRule: NormalizerRule = {
+  name: 'year',
+  apply: (text) => {
+    const year = '(1[1-9]\\d\\d|20\\d\\d)\\b(?![.,]\\d|%)';
+    return text
+      // "in 1990", "from 1990 to 1995"
+      .replace(
+        new RegExp(`\\b(${YEAR_CONTEXT}\\s+)${year}(?:(\\s+(?:to|and)\\s+)${year})?`, 'gi'),
+        (_m, lead: string, first: string, link: string | undefined, second: string | undefined) =>
+          lead + yearToWords(Number(first)) + (link && second ? link + yearToWords(Number(second)) : '')
+      )
+      // "1066 AD", "1200 BC"
+      .replace(/\b(\d{1,4})\s?(AD|BC|BCE|CE)\b/g, (_m, y: string, era: string) => `${yearToWords(Number(y))} ${era}`);
+  }
+};
+
+// Runs before the rules that read a leading minus sign, so a hyphen between numbers is never one
+const rangeRule: NormalizerRule = {
+  name: 'range',
+  apply: (text) =>
+    text
+      // Phone numbers: 555-1234, 1-800-555-1234; read digit by digit, group by group
+      .replace(/(?<![\d-])(?:\d{3}-\d{4}|\d{1,4}(?:-\d{2,4}){2,})(?![\d-])/g, (match) =>
+        match.split('-').map((group) => digitsToWords(group)).join(', ')
+      )
+      // 10-20%, 5–10 km, 1990—1995
+      .replace(/(\d)\s?[–—]\s?(?=-?\d)|(\d)-(?=\d)/g, (_m, a: string | undefined, b: string | undefined) => `${a ?? b} to `)
+};
+
+const cardinalRule: NormalizerRule = {
+  name: 'cardinal',
+  apply: (text) =>
+    text
+      // Version strings: 1.2.3 -> one point two point three
+      .replace(/(?<![\d.])\d+(?:\.\d+){2,}(?![\d.]\d)/g, (match) =>
+        match.split('.').map((part) => cardinalToWords(part)).join(' point ')
+      )
+      .replace(/#(\d+)/g, 'number $1')
+      .replace(/(^|[\s(\[])-(?=\d)/g, '$1minus ')
+      .replace(
+        /(?<![\d.])(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?!\d|\.\d)/g,
+        (match, intPart: string, frac: string | undefined, offset: number, source: string) => {
+          // Keep "mp3" or "4K" from fusing into a single word
+          const before = /\p{L}/u.test(source.charAt(offset - 1)) ? ' ' : '';
+          const after = /\p{L}/u.test(source.charAt(offset + match.length)) ? ' ' : '';
+          return before + numberToWords(intPart + (frac ?? '')) + after;
+        }
+      )
+};
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export function defaultNormalizerRules(): NormalizerRule[] {
+  return [
+    dateRule,
+    timeRule,
+    rangeRule,
+    currencyRule,
+    percentRule,
+    decadeRule,
+    ordinalRule,
+    unitRule,
+    fractionRule,
+    romanRule,
+    yearRule,
+    cardinalRule
+  ];
+}
+
+export class TextNormalizer {
+  private rules: NormalizerRule[];
+
+  constructor(rules: NormalizerRule[] = defaultNormalizerRules()) {
+    this.rules = [...rules];
+  }
+
+  /**
+   * Add a rule. By default it runs last; pass `before` to run it ahead of an existing rule.
+   */
+  use(rule: NormalizerRule, options: { before?: string } = {}): this {
+    this.remove(rule.name);
+    const index = options.before ? this.rules.findIndex((r) => r.name === options.before) : -1;
+    if (index === -1) {
+      this.rules.push(rule);
+    } else {
+      this.rules.splice(index, 0, rule);
+    }
+    return this;
+  }
+
+  remove(name: string): this {
+    this.rules = this.rules.filter((rule) => rule.name !== name);
+    return this;
+  }
+
+  get ruleNames(): string[] {
+    return this.rules.map((rule) => rule.name);
+  }
+
+  normalize(text: string): string {
+    return this.rules.reduce((current, rule) => rule.apply(current), text);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Picks denoising steps for the 'auto' quality mode.
+ *
+ * Synthesis cost grows with the number of steps, so the controller keeps an estimate of
+ * synthesis seconds per audio second per step (the real-time factor divided by steps) and
+ * chooses the most steps that still produce audio clearly faster than it plays. When the
+ * look-ahead buffer runs low it steps down regardless of the estimate.
+ */
+
+export const MIN_AUTO_STEPS = 2;
+export const MAX_AUTO_STEPS = 10;
+
+// Share of playback time synthesis may use; the rest absorbs slow chunks and other tabs
+const TARGET_LOAD = 0.6;
+// Below this much buffered audio (in playback seconds) quality gives way to keeping up
+const LOW_BUFFER_SECONDS = 3;
+// Weight of the newest measurement in the running estimate
+const SMOOTHING = 0.4;
+
+export class AdaptiveQuality {
+  private steps: number;
+  private initialSteps: number;
+  // Synthesis seconds per audio second per step; null until something was measured
+  private costPerStep: number | null = null;
+  // Overlapping syntheses are measured together, from the first start to the last end
+  private inFlight = 0;
+  private busySince = 0;
+  private busyWork = 0; // audio seconds x steps finished in the current busy period
+
+  constructor(initialSteps: number) {
+    this.initialSteps = this.steps = clampSteps(initialSteps);
+  }
+
+  /**
+   * Start again from `initialSteps` when the user changed them, keeping what was measured
+   * about the machine.
+   */
+  startFrom(initialSteps: number): void {
+    const steps = clampSteps(initialSteps);
+    if (steps === this.initialSteps) return;
+    this.initialSteps = this.steps = steps;
+  }
+
+  get currentSteps(): number {
+    return this.steps;
+  }
+
+  /**
+   * Steps for the next synthesis. `playbackRate` is the time-stretch rate, since faster
+   * playback drains the buffer faster; `bufferedSeconds` is audio waiting to be played.
+   */
+  next(playbackRate: number, bufferedSeconds: number): number {
+    if (this.costPerStep !== null) {
+      const sustainable = clampSteps(Math.floor(TARGET_LOAD / (this.costPerStep * playbackRate)));
+      // Drop straight to what the machine sustains, but climb one step at a time
+      this.steps = sustainable < this.steps ? sustainable : Math.min(sustainable, this.steps + 1);
+    }
+    if (bufferedSeconds < LOW_BUFFER_SECONDS && this.steps > MIN_AUTO_STEPS) {
+      this.steps--;
+    }
+    return this.steps;
+  }
+
+  begin(): void {
+    if (this.inFlight++ === 0) {
+      this.busySince = performance.now();
+      this.busyWork = 0;
+    }
+  }
+
+  /**
+   * Record a finished synthesis of `audioSeconds` at `steps`. Pass 0 seconds for a failed
+   * or cancelled one, so it still closes the busy period.
+   */
+  end(audioSeconds: number, steps: number): void {
+    this.busyWork += audioSeconds * steps;
+    if (--this.inFlight > 0 || this.busyWork <= 0) return;
+
+    const sample = (performance.now() - this.busySince) / 1000 / this.busyWork;
+    this.costPerStep = this.costPerStep === null ? sample : this.costPerStep + SMOOTHING * (sample - this.costPerStep);
+  }
+}
+
+function clampSteps(steps: number): number {
+  return Math.min(MAX_AUTO_STEPS, Math.max(MIN_AUTO_STEPS, Math.round(steps)));
+}
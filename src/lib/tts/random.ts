@@ -0,0 +1,25 @@
+/**
+ * Seedable PRNG (mulberry32). Not suitable for anything security related; it only exists
+ * so synthesis noise can be reproduced from a seed.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal samples via Box-Muller, drawing uniforms from `random`.
+ */
+export function createGaussian(random: () => number = Math.random): () => number {
+  return () => {
+    const u1 = Math.max(0.0001, random());
+    const u2 = random();
+    return Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Split a paragraph into chunks no longer than the model's safe length.
+ *
+ * Sentences come from Intl.Segmenter with the page locale, so CJK full stops, Spanish
+ * inverted marks and the like are handled. A sentence that is still too long is split at
+ * clause punctuation, then at word boundaries, and as a last resort (a long URL) at any
+ * character. Whitespace between pieces is kept as it was in the input.
+ */
+
+// Intl.Segmenter has no abbreviation list and ends a sentence at "Dr." or an initial
+const ABBREVIATION = /\b(?:Mr|Mrs|Ms|Dr|Prof|Sr|Jr|Ph\.D|etc|e\.g|i\.e|vs|Inc|Ltd|Co|Corp|St|Ave|Blvd)\.\s*$/;
+// A capital and a period: an initial ("John F. Kennedy", "U.S.") or a sentence end ("World War I.")
+const INITIAL = /(?:^|[\s.])[A-Z]\.\s*$/;
+// Capitalized words that start a sentence far more often than they follow an initial
+const SENTENCE_STARTERS = new Set([
+  'A', 'After', 'All', 'Although', 'An', 'And', 'As', 'At', 'Before', 'But', 'By', 'Each', 'For', 'From', 'He',
+  'Her', 'His', 'How', 'However', 'I', 'If', 'In', 'It', 'Its', 'Later', 'Many', 'Meanwhile', 'Most', 'My', 'No',
+  'Now', 'On', 'One', 'Our', 'She', 'Since', 'So', 'Some', 'Soon', 'Still', 'That', 'The', 'Their', 'Then',
+  'There', 'These', 'They', 'This', 'Those', 'Today', 'We', 'What', 'When', 'Where', 'While', 'Who', 'Why',
+  'With', 'Yet', 'You'
+]);
+// Used when Intl.Segmenter is missing
+const SENTENCE_BREAK =
+  /(?<!Mr\.|Mrs\.|Ms\.|Dr\.|Prof\.|Sr\.|Jr\.|Ph\.D\.|etc\.|e\.g\.|i\.e\.|vs\.|Inc\.|Ltd\.|Co\.|Corp\.|St\.|Ave\.|Blvd\.)(?<=[.!?。！？])\s+/;
+// After a comma, semicolon, colon, dash or closing bracket, including the CJK forms that take no space
+const CLAUSE_BREAK = /(?<=[,;:)\]—–])\s+|(?<=[、，；：）])/u;
+
+// Longest chunk the model reads reliably, in characters
+export const MAX_CHUNK_LENGTH = 300;
+
+type Granularity = 'sentence' | 'word';
+
+const segmenters = new Map<string, Intl.Segmenter | null>();
+
+function getSegmenter(locale: string | undefined, granularity: Granularity): Intl.Segmenter | null {
+  const key = `${locale ?? ''}|${granularity}`;
+  if (!segmenters.has(key)) {
+    segmenters.set(key, createSegmenter(locale, granularity));
+  }
+  return segmenters.get(key)!;
+}
+
+function createSegmenter(locale: string | undefined, granularity: Granularity): Intl.Segmenter | null {
+  if (typeof Intl.Segmenter !== 'function') return null;
+  try {
+    return new Intl.Segmenter(locale, { granularity });
+  } catch {
+    // Pages declare all sorts of invalid language tags; use the browser default instead
+    return locale ? createSegmenter(undefined, granularity) : null;
+  }
+}
+
+/**
+ * Sentences of `text`, each with its trailing whitespace.
+ */
+export function splitSentences(text: string, locale?: string): string[] {
+  const segmenter = getSegmenter(locale, 'sentence');
+  const segments = segmenter
+    ? Array.from(segmenter.segment(text), ({ segment }) => segment)
+    : splitKeepingSeparators(text, SENTENCE_BREAK);
+
+  const sentences: string[] = [];
+  for (const segment of segments) {
+    const previous = sentences.length - 1;
+    if (previous >= 0 && continuesSentence(sentences[previous], segment)) {
+      sentences[previous] += segment;
+    } else {
+      sentences.push(segment);
+    }
+  }
+  return sentences;
+}
+
+// Whether a break after `previous` came from an abbreviation or initial rather than a sentence end
+function continuesSentence(previous: string, next: string): boolean {
+  if (ABBREVIATION.test(previous)) return true;
+  if (!INITIAL.test(previous)) return false;
+  const word = /^\s*(\S+)/.exec(next)?.[1] ?? '';
+  // Another initial (J. R. R. Tolkien) or a lowercase word (the U.S. government)
+  if (/^[A-Z]\.$/.test(word) || /^\p{Ll}/u.test(word)) return true;
+  // A name (John F. Kennedy), unless the word usually starts a sentence (Plan B. Then...)
+  return /^\p{Lu}/u.test(word) && !SENTENCE_STARTERS.has(word.replace(/\P{L}+$/u, ''));
+}
+
+export function splitIntoChunks(text: string, maxLen: number, locale?: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const sentence of splitSentences(text, locale)) {
+    if ((current + sentence).trim().length <= maxLen) {
+      current += sentence;
+      continue;
+    }
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+
+    if (sentence.trim().length <= maxLen) {
+      current = sentence;
+    } else {
+      // Pieces of an oversized sentence are packed among themselves, never with its neighbours
+      chunks.push(...pack(splitLongSentence(sentence, maxLen, locale), maxLen));
+    }
+  }
+
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+}
+
+function splitLongSentence(sentence: string, maxLen: number, locale: string | undefined): string[] {
+  return splitKeepingSeparators(sentence, CLAUSE_BREAK).flatMap((clause) =>
+    clause.trim().length <= maxLen ? [clause] : splitAtWords(clause, maxLen, locale)
+  );
+}
+
+function splitAtWords(clause: string, maxLen: number, locale: string | undefined): string[] {
+  const segmenter = getSegmenter(locale, 'word');
+  const words = segmenter
+    ? Array.from(segmenter.segment(clause), ({ segment }) => segment)
+    : clause.split(/(?<=\s)(?=\S)/);
+  return words.flatMap((word) => (word.trim().length <= maxLen ? [word] : splitAtCharacters(word, maxLen)));
+}
+
+function splitAtCharacters(word: string, maxLen: number): string[] {
+  // By code point so surrogate pairs stay together
+  const characters = Array.from(word);
+  const pieces: string[] = [];
+  for (let i = 0; i < characters.length; i += maxLen) {
+    pieces.push(characters.slice(i, i + maxLen).join(''));
+  }
+  return pieces;
+}
+
+// Greedily join consecutive pieces while they fit
+function pack(pieces: string[], maxLen: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if ((current + piece).trim().length <= maxLen) {
+      current += piece;
+    } else {
+      if (current.trim()) chunks.push(current.trim());
+      current = piece;
+    }
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+}
+
+// Like split(), but the matched whitespace stays at the end of the piece before it
+function splitKeepingSeparators(text: string, separator: RegExp): string[] {
+  const global = new RegExp(separator.source, separator.flags.includes('g') ? separator.flags : `${separator.flags}g`);
+  const pieces: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(global)) {
+    const end = match.index! + match[0].length;
+    if (end === start) continue;
+    pieces.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) pieces.push(text.slice(start));
+  return pieces;
+}
+
+/**
+ * Split text into chunks of at most `maxLen` characters. Paragraphs (blank-line separated)
+ * always start a new chunk; long ones are split at sentence boundaries for `locale`.
+ */
+export function chunkText(text: string, maxLen = MAX_CHUNK_LENGTH, locale?: string): string[] {
+  return chunkParagraphs(text, maxLen, locale).flat();
+}
+
+/**
+ * chunkText, with the chunks grouped by the paragraph they came from.
+ */
+export function chunkParagraphs(text: string, maxLen = MAX_CHUNK_LENGTH, locale?: string): string[][] {
+  if (typeof text !== 'string') {
+    throw new Error(`chunkText expects a string, got ${typeof text}`);
+  }
+
+  // Split by double newlines to get paragraphs (each paragraph = one DOM block)
+  const paragraphs = text.trim().split(/\n\s*\n+/).filter((p) => p.trim());
+
+  const chunks: string[][] = [];
+
+  for (let paragraph of paragraphs) {
+    paragraph = paragraph.trim();
+    if (!paragraph) continue;
+
+    // Short paragraphs (likely headings or short content) - keep as single chunk
+    // This ensures headings are read separately from the following paragraph
+    if (paragraph.length <= maxLen) {
+      chunks.push([paragraph]);
+      continue;
+    }
+
+    // Long paragraphs - split by sentences, then clauses and words when a sentence is too long
+    chunks.push(splitIntoChunks(paragraph, maxLen, locale));
+  }
+
+  return chunks;
+}
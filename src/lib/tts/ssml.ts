@@ -0,0 +1,314 @@
+import { dateToWords, digitsToWords, numberToWords, yearToWords } from './normalize';
+
+/**
+ * SSML subset for TTSRequest text.
+ *
+ * Supported elements: <speak>, <p>, <s>, <break time|strength>, <prosody rate>,
+ * <emphasis level>, <say-as interpret-as="characters|date|cardinal">, <sub alias>
+ * and <voice name>. Unknown elements are ignored but their text is still read.
+ * The parser is a small tokenizer rather than DOMParser so it also works off the main thread.
+ */
+
+export interface SsmlTextSegment {
+  type: 'text';
+  text: string;
+  rate: number; // multiplier applied on top of the request speed
+  voice: string | null; // <voice name>, null for the request voice
+  paragraphStart: boolean; // starts a paragraph rather than continuing one with another rate or voice
+}
+
+export interface SsmlBreakSegment {
+  type: 'break';
+  seconds: number;
+}
+
+export type SsmlSegment = SsmlTextSegment | SsmlBreakSegment;
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  none: 0,
+  'x-weak': 0.1,
+  weak: 0.25,
+  medium: 0.5,
+  strong: 0.8,
+  'x-strong': 1.2
+};
+
+const RATE_KEYWORDS: Record<string, number> = {
+  'x-slow': 0.5,
+  slow: 0.75,
+  medium: 1,
+  default: 1,
+  fast: 1.25,
+  'x-fast': 1.5
+};
+
+// The model has no emphasis input, so emphasis is rendered as a change of pace
+const EMPHASIS_RATES: Record<string, number> = {
+  strong: 0.85,
+  moderate: 0.92,
+  none: 1,
+  reduced: 1.1
+};
+
+const MAX_BREAK_SECONDS = 10;
+
+// Block-level elements get a paragraph break so chunking keeps them apart
+const BLOCK_ELEMENTS = new Set(['p', 's', 'speak']);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+interface Frame {
+  name: string;
+  rate: number;
+  voice: string | null;
+  // Elements whose content is replaced rather than read (say-as, sub)
+  capture: { kind: 'say-as'; interpretAs: string; format: string } | { kind: 'sub'; alias: string } | null;
+  captured: string;
+}
+
+export function isSsml(text: string): boolean {
+  return /^\s*(<\?xml[^>]*\?>\s*)?<speak[\s>]/i.test(text);
+}
+
+/**
+ * Parse SSML into text and break segments. Neighbouring text with the same rate and voice
+ * is merged. Throws on malformed markup so callers can report the problem to the sender.
+ */
+export function parseSsml(ssml: string): SsmlSegment[] {
+  const segments: SsmlSegment[] = [];
+  const stack: Frame[] = [{ name: '#root', rate: 1, voice: null, capture: null, captured: '' }];
+  const tagPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<(\/?)([a-zA-Z][\w:-]*)((?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+  const top = () => stack[stack.length - 1];
+
+  const pushText = (text: string) => {
+    const capturing = stack.find((frame) => frame.capture);
+    if (capturing) {
+      capturing.captured += text;
+      return;
+    }
+    if (!text) return;
+    const frame = top();
+    const last = segments[segments.length - 1];
+    if (last?.type === 'text' && last.rate === frame.rate && last.voice === frame.voice) {
+      last.text += text;
+    } else {
+      segments.push({ type: 'text', text, rate: frame.rate, voice: frame.voice, paragraphStart: false });
+    }
+  };
+
+  const pushBreak = (seconds: number) => {
+    if (seconds <= 0) return;
+    const last = segments[segments.length - 1];
+    if (last?.type === 'break') {
+      last.seconds = Math.min(MAX_BREAK_SECONDS, last.seconds + seconds);
+    } else {
+      segments.push({ type: 'break', seconds: Math.min(MAX_BREAK_SECONDS, seconds) });
+    }
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(ssml)) !== null) {
+    const raw = ssml.slice(lastIndex, match.index);
+    if (raw.includes('<')) {
+      throw new Error(`Malformed SSML near "${raw.slice(raw.indexOf('<'), raw.indexOf('<') + 20)}"`);
+    }
+    pushText(decodeEntities(raw));
+    lastIndex = tagPattern.lastIndex;
+
+    const [, closing, rawName, rawAttrs, selfClosing] = match;
+    if (!rawName) continue; // comment or processing instruction
+    const name = rawName.toLowerCase();
+
+    if (closing) {
+      const frame = stack.pop();
+      if (!frame || frame.name !== name || stack.length === 0) {
+        throw new Error(`Unexpected closing tag </${rawName}>`);
+      }
+      if (frame.capture) {
+        const spoken = frame.capture.kind === 'sub'
+          ? frame.capture.alias
+          : interpretSayAs(frame.captured, frame.capture.interpretAs, frame.capture.format);
+        pushText(spoken);
+      }
+      if (BLOCK_ELEMENTS.has(name)) pushText('\n\n');
+      continue;
+    }
+
+    const attrs = parseAttributes(rawAttrs);
+
+    if (name === 'break') {
+      pushBreak(breakSeconds(attrs));
+      continue;
+    }
+    if (selfClosing) continue;
+
+    const parent = top();
+    const frame: Frame = { name, rate: parent.rate, voice: parent.voice, capture: null, captured: '' };
+    switch (name) {
+      case 'prosody':
+        if (attrs.rate) frame.rate = parent.rate * parseRate(attrs.rate);
+        break;
+      case 'emphasis':
+        frame.rate = parent.rate * (EMPHASIS_RATES[attrs.level ?? 'moderate'] ?? 1);
+        break;
+      case 'voice':
+        if (attrs.name) frame.voice = attrs.name;
+        break;
+      case 'say-as':
+        frame.capture = { kind: 'say-as', interpretAs: (attrs['interpret-as'] ?? '').toLowerCase(), format: attrs.format ?? '' };
+        break;
+      case 'sub':
+        if (attrs.alias === undefined) throw new Error('<sub> needs an alias attribute');
+        frame.capture = { kind: 'sub', alias: attrs.alias };
+        break;
+    }
+    // Text inside nested say-as or sub is collected by the outermost one
+    if (stack.some((open) => open.capture)) frame.capture = null;
+    stack.push(frame);
+    if (BLOCK_ELEMENTS.has(name)) pushText('\n\n');
+  }
+
+  const rest = ssml.slice(lastIndex);
+  if (rest.includes('<')) {
+    throw new Error(`Malformed SSML near "${rest.slice(rest.indexOf('<'), rest.indexOf('<') + 20)}"`);
+  }
+  pushText(decodeEntities(rest));
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed <${top().name}> element`);
+  }
+
+  return tidySegments(segments);
+}
+
+function tidySegments(segments: SsmlSegment[]): SsmlSegment[] {
+  const result: SsmlSegment[] = [];
+  // A block boundary can end up at the end of one text segment or the start of the next
+  let afterParagraphBreak = true;
+  for (const segment of segments) {
+    if (segment.type === 'break') {
+      result.push(segment);
+      continue;
+    }
+    const paragraphStart = afterParagraphBreak || /^\s*\n\s*\n/.test(segment.text);
+    afterParagraphBreak = segment.text.trim()
+      ? /\n\s*\n\s*$/.test(segment.text)
+      : afterParagraphBreak || /\n\s*\n/.test(segment.text);
+    // Collapse whitespace inside lines but keep paragraph breaks for chunking
+    const text = segment.text
+      .split(/\n\s*\n/)
+      .map((part) => part.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n\n');
+    if (text) result.push({ ...segment, text, paragraphStart });
+  }
+  return result;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(raw)) !== null) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attrs;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+function breakSeconds(attrs: Record<string, string>): number {
+  if (attrs.time) {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s)\s*$/i.exec(attrs.time);
+    if (!match) throw new Error(`Invalid break time "${attrs.time}"`);
+    const value = Number(match[1]);
+    return match[2].toLowerCase() === 'ms' ? value / 1000 : value;
+  }
+  const strength = BREAK_STRENGTHS[(attrs.strength ?? 'medium').toLowerCase()];
+  if (strength === undefined) throw new Error(`Invalid break strength "${attrs.strength}"`);
+  return strength;
+}
+
+/**
+ * Prosody rate as a multiplier: keywords, percentages ("150%", "+20%") or plain numbers.
+ */
+function parseRate(value: string): number {
+  const keyword = RATE_KEYWORDS[value.trim().toLowerCase()];
+  if (keyword !== undefined) return keyword;
+
+  const percent = /^\s*([+-])?(\d+(?:\.\d+)?)%\s*$/.exec(value);
+  if (percent) {
+    const amount = Number(percent[2]) / 100;
+    if (percent[1] === '+') return 1 + amount;
+    if (percent[1] === '-') return Math.max(0.1, 1 - amount);
+    return amount > 0 ? amount : 1;
+  }
+
+  const number = Number(value);
+  if (Number.isFinite(number) && number > 0) return number;
+  throw new Error(`Invalid prosody rate "${value}"`);
+}
+
+function interpretSayAs(text: string, interpretAs: string, format: string): string {
+  const content = text.trim();
+  switch (interpretAs) {
+    case 'characters':
+    case 'spell-out':
+      return spellCharacters(content);
+    case 'cardinal':
+    case 'number':
+      return /^-?[\d,]+(\.\d+)?$/.test(content) ? numberToWords(content) : content;
+    case 'date':
+      return sayDate(content, format) ?? content;
+    default:
+      return content;
+  }
+}
+
+function spellCharacters(text: string): string {
+  return Array.from(text)
+    .filter((char) => char.trim())
+    .map((char) => (/\d/.test(char) ? digitsToWords(char) : char.toUpperCase()))
+    .join(' ');
+}
+
+/**
+ * Read a numeric date in the given say-as format (ymd, mdy, dmy, md, dm, ym, my, y).
+ * Without a format, four leading digits mean ymd and anything else mdy, cut to the number of parts.
+ */
+function sayDate(text: string, format: string): string | null {
+  const parts = text.split(/[-/.\s]+/).filter(Boolean);
+  if (parts.length === 0 || !parts.every((part) => /^\d+$/.test(part))) return null;
+
+  const order = (format || (parts[0].length === 4 ? 'ymd' : 'mdy').slice(0, parts.length)).toLowerCase();
+  if (order.length !== parts.length || !/^[ymd]+$/.test(order)) return null;
+
+  let year: number | null = null;
+  let month: number | null = null;
+  let day: number | null = null;
+  for (let i = 0; i < order.length; i++) {
+    const value = Number(parts[i]);
+    if (order[i] === 'y') year = parts[i].length === 2 ? (value < 50 ? 2000 + value : 1900 + value) : value;
+    else if (order[i] === 'm') month = value - 1;
+    else day = value;
+  }
+
+  if (month === null) return year === null || day !== null ? null : yearToWords(year);
+  if (month < 0 || month > 11) return null;
+  if (day === null) {
+    // "March first, 2024" without the day reads "March twenty twenty-four"
+    return dateToWords(year, month, 1).replace(/ first,?/, '');
+  }
+  if (day < 1 || day > 31) return null;
+  return dateToWords(year, month, day, format.toLowerCase().startsWith('d'));
+}
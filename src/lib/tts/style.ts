@@ -0,0 +1,105 @@
+import type { VoiceStyleData, VoiceStyleTensor } from '@shared/types';
+
+/**
+ * Parse a voice style JSON document (the `style_ttl` / `style_dp` format shipped in
+ * `assets/voice_styles`) into flat tensors. Throws with a readable message when the
+ * document is malformed, so bad imports are rejected before they ever reach the model.
+ */
+export function parseVoiceStyle(json: unknown): VoiceStyleData {
+  if (!json || typeof json !== 'object') {
+    throw new Error('Voice style must be a JSON object');
+  }
+  const doc = json as Record<string, unknown>;
+  return {
+    ttl: parseStyleTensor(doc.style_ttl, 'style_ttl'),
+    dp: parseStyleTensor(doc.style_dp, 'style_dp')
+  };
+}
+
+/**
+ * Check that a parsed style has the tensor shapes the model expects (normally taken from
+ * one of the built-in styles). Returns an error message, or null when the shapes match.
+ */
+export function checkVoiceStyleDims(
+  style: VoiceStyleData,
+  expected: { ttl: readonly number[]; dp: readonly number[] }
+): string | null {
+  for (const key of ['ttl', 'dp'] as const) {
+    const actual = style[key].dims;
+    const wanted = expected[key];
+    if (actual.join('x') !== wanted.join('x')) {
+      return `style_${key} has dims [${actual.join(', ')}], expected [${wanted.join(', ')}]`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Mix voice styles by weighted interpolation of their ttl and dp tensors.
+ * Weights are normalized, so [3, 2] and [0.6, 0.4] give the same voice.
+ */
+export function blendVoiceStyles(styles: VoiceStyleData[], weights: number[]): VoiceStyleData {
+  if (styles.length === 0 || styles.length !== weights.length) {
+    throw new Error('blendVoiceStyles needs one weight per style');
+  }
+  const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  if (total <= 0) {
+    throw new Error('Voice blend weights must add up to more than zero');
+  }
+
+  const mix = (tensors: VoiceStyleTensor[]): VoiceStyleTensor => {
+    const dims = tensors[0].dims;
+    const out = new Float32Array(tensors[0].data.length);
+    tensors.forEach((tensor, i) => {
+      if (tensor.dims.join('x') !== dims.join('x')) {
+        throw new Error(`Cannot blend styles with dims [${tensor.dims}] and [${dims}]`);
+      }
+      const weight = Math.max(0, weights[i]) / total;
+      if (weight === 0) return;
+      for (let j = 0; j < out.length; j++) {
+        out[j] += tensor.data[j] * weight;
+      }
+    });
+    return { dims, data: out };
+  };
+
+  return { ttl: mix(styles.map((s) => s.ttl)), dp: mix(styles.map((s) => s.dp)) };
+}
+
+function parseStyleTensor(value: unknown, name: string): VoiceStyleTensor {
+  if (!value || typeof value !== 'object') {
+    throw new Error(`Voice style is missing ${name}`);
+  }
+  const { dims, data } = value as { dims?: unknown; data?: unknown };
+
+  if (
+    !Array.isArray(dims) ||
+    dims.length !== 3 ||
+    !dims.every((d) => Number.isInteger(d) && d > 0)
+  ) {
+    throw new Error(`${name}.dims must be three positive integers`);
+  }
+  if (dims[0] !== 1) {
+    throw new Error(`${name} must hold a single style (dims[0] = 1), got ${dims[0]}`);
+  }
+  if (!Array.isArray(data)) {
+    throw new Error(`${name}.data must be an array`);
+  }
+
+  const flat = (data as unknown[]).flat(Infinity);
+  const expectedSize = dims[0] * dims[1] * dims[2];
+  if (flat.length !== expectedSize) {
+    throw new Error(`${name}.data has ${flat.length} values, dims [${dims.join(', ')}] need ${expectedSize}`);
+  }
+
+  const values = new Float32Array(expectedSize);
+  for (let i = 0; i < flat.length; i++) {
+    const v = flat[i];
+    if (typeof v !== 'number' || !Number.isFinite(v)) {
+      throw new Error(`${name}.data contains a non-numeric value at position ${i}`);
+    }
+    values[i] = v;
+  }
+
+  return { dims: [dims[0], dims[1], dims[2]], data: values };
+}
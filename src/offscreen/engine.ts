@@ -0,0 +1,74 @@
+import type { TTSEngineId, TTSSettings, UnknownCharStrategy, VoiceStyleData } from '@shared/types';
+
+/**
+ * Speech engines the offscreen document plays with. Sample engines hand back audio that
+ * goes through the usual pipeline (cache, post-processing, time-stretch worklet, export);
+ * speech engines play each chunk themselves, so they get none of that.
+ */
+
+export interface EngineCapabilities {
+  renderSamples: boolean; // audio can be cached, time-stretched and exported
+  voiceStyles: boolean; // takes voice style tensors (built-in, blended and imported voices)
+  seed: boolean; // output is reproducible for a fixed seed
+}
+
+export interface EngineVoice {
+  id: string;
+  name: string;
+  lang?: string; // BCP 47, when the engine knows it
+}
+
+interface EngineBase {
+  readonly id: TTSEngineId;
+  readonly capabilities: EngineCapabilities;
+  /**
+   * Get ready to synthesize with these settings, loading or reloading models as needed.
+   * Throws when the engine cannot run here.
+   */
+  load(settings: TTSSettings): Promise<void>;
+  voices(): Promise<EngineVoice[]>;
+}
+
+export interface SampleSynthesisOptions {
+  style: VoiceStyleData;
+  steps: number;
+  speed: number;
+  seed?: number;
+  unknownChars: UnknownCharStrategy;
+}
+
+export interface SampleEngine extends EngineBase {
+  readonly kind: 'samples';
+  readonly sampleRate: number; // valid once loaded
+  /**
+   * Synthesize one chunk, or several as a batch. Aborting the signal rejects with an AbortError.
+   */
+  synthesizeChunks(
+    texts: string[],
+    options: SampleSynthesisOptions,
+    signal: AbortSignal,
+    onProgress?: (step: number, total: number) => void
+  ): Promise<Float32Array[]>;
+  // Distinct characters across `texts` the engine cannot pronounce
+  findUnsupportedCharacters(texts: string[]): Promise<string[]>;
+}
+
+export interface SpeechSynthesisOptions {
+  rate: number;
+  voice?: string; // an EngineVoice id or name; the engine's choice for `locale` when unset
+  locale?: string;
+}
+
+export interface SpeechEngine extends EngineBase {
+  readonly kind: 'speech';
+  /**
+   * Speak one chunk and resolve when it has finished. Aborting the signal stops it.
+   */
+  synthesizeChunk(text: string, options: SpeechSynthesisOptions, signal: AbortSignal): Promise<void>;
+  // Rough spoken length in seconds, for highlighting before the engine reports anything
+  estimateDuration(text: string, rate: number): number;
+  pause(): void;
+  resume(): void;
+}
+
+export type TTSEngine = SampleEngine | SpeechEngine;
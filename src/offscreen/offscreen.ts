@@ -1,29 +1,146 @@
-import * as ort from 'onnxruntime-web';
-import wasmSimdThreaded from '../onnxruntime/ort-wasm-simd-threaded.wasm?url';
-import wasmJsep from '../onnxruntime/ort-wasm-simd-threaded.jsep.wasm?url';
-import wasmAsyncify from '../onnxruntime/ort-wasm-simd-threaded.asyncify.wasm?url';
-import {
-  loadTextToSpeech,
-  loadVoiceStyle,
-  type Style,
-  type TextToSpeech
-} from '@lib/tts';
-import type { BackgroundToOffscreenMessage, OffscreenToBackgroundMessage } from '@shared/messages';
-import type { TTSRequest, VoiceId } from '@shared/types';
+// The models run in tts.worker; this page imports the ORT-free parts of lib/tts directly
+import { DEFAULT_UNKNOWN_CHAR_STRATEGY } from '@lib/tts/coverage';
+import { applyLexicon } from '@lib/tts/lexicon';
+import { DurationEstimator } from '@lib/tts/duration';
+import { TextNormalizer, isHeadingLike } from '@lib/tts/normalize';
+import { MAX_CHUNK_LENGTH, chunkParagraphs, splitIntoChunks } from '@lib/tts/segment';
+import { AdaptiveQuality } from '@lib/tts/quality';
+import { parseSsml } from '@lib/tts/ssml';
+import { blendVoiceStyles, checkVoiceStyleDims, parseVoiceStyle } from '@lib/tts/style';
+import type {
+  BackgroundToOffscreenMessage,
+  FromTimeStretchMessage,
+  OffscreenToBackgroundMessage,
+  ToTimeStretchMessage
+} from '@shared/messages';
+import { getCustomVoice, isCustomVoiceId } from '@lib/storage/voices';
+import { audioCacheKey, getCachedAudio, putCachedAudio } from '@lib/storage/audio-cache';
+import { OpusStreamEncoder } from '@lib/audio/opus';
+import { DEFAULT_POST_PROCESS_OPTIONS, postProcessChunk } from '@lib/audio/postprocess';
+import { WavWriter } from '@lib/audio/wav';
+import { muxOpusWebm } from '@lib/audio/webm';
+import { MAX_STRETCH_RATE, MIN_STRETCH_RATE, timeStretch } from '@lib/audio/wsola';
+import timeStretchWorkletUrl from './time-stretch.worklet.ts?worker&url';
+import type { SampleEngine, SpeechEngine, TTSEngine } from './engine';
+import { SupertonicEngine } from './supertonic-engine';
+import { WebSpeechEngine } from './web-speech-engine';
+import type {
+  ArticleContent,
+  AudioChapter,
+  AudioExportRequest,
+  AudioMetadata,
+  BuiltinVoiceId,
+  ImportedCustomVoice,
+  LexiconRule,
+  SeekTarget,
+  TTSEngineId,
+  TTSRequest,
+  TTSSettings,
+  VoiceBlendComponent,
+  VoiceId,
+  VoiceStyleData
+} from '@shared/types';
 
 const ONNX_DIR = chrome.runtime.getURL('assets/onnx');
 const VOICE_STYLE_DIR = chrome.runtime.getURL('assets/voice_styles');
+// Models ship with the extension, so its version identifies them in the model and audio caches
+const EXTENSION_VERSION = chrome.runtime.getManifest().version;
+const MAX_BATCH_SIZE = 4;
+// Chunks in the worklet queue at once: the one playing and the one that follows it
+const MAX_QUEUED_CHUNKS = 2;
+const DEFAULT_CHUNK_PAUSE_MS = 150;
+const DEFAULT_HEADING_PAUSE_MS = 600;
+const DEFAULT_PARAGRAPH_PAUSE_MS = 400;
+// How long an exported file's blob URL stays valid for the background to download it
+const EXPORT_URL_LIFETIME_MS = 5 * 60 * 1000;
+// How often browser-voice playback reports its (estimated) position
+const POSITION_INTERVAL_MS = 500;
+const DEFAULT_ENGINE: TTSEngineId = 'supertonic';
+const BATCH_LENGTH_RATIO = 1.5; // longest / shortest chunk allowed in one batch
+// Limits for SSML prosody rates, which are synthesized into the audio. The speed setting is
+// applied afterwards by the time-stretch worklet, so it never needs re-synthesis.
+const MIN_SPEED = 0.25;
+const MAX_SPEED = 4;
+// Settings baked into synthesized audio; changing one mid-playback affects chunks synthesized afterwards
+const CHUNK_AUDIO_SETTINGS: Array<keyof TTSSettings> = [
+  'voice',
+  'qualitySteps',
+  'qualityMode',
+  'seed',
+  'unknownChars',
+  'normalizeLoudness',
+  'chunkPauseMs',
+  'paragraphPauseMs',
+  'headingPauseMs'
+];
+
+// One unit of synthesis: a text chunk with its own speed, voice and surrounding silence
+interface PlannedChunk {
+  text: string; // as the engine reads it, with the lexicon and normalizer applied
+  sourceText: string; // as it is on the page, for highlighting
+  sourcePiece: number; // 0, or which piece this is of a source chunk the rewrite made too long
+  speed: number;
+  style: VoiceStyleData | null; // null for engines without voice styles
+  voiceName?: string; // SSML voice, for engines that pick voices by name
+  styleKey: string; // chunks are only batched with chunks that share a style and speed
+  heading: boolean; // gets the longer heading pause after it
+  paragraphStart: boolean; // first chunk of a paragraph
+  pauseBefore: number; // seconds
+  pauseAfter: number; // seconds
+}
+
+interface ChunkCallbacks {
+  onStart?: (time: number) => void; // AudioContext time of the chunk's first sample
+  onProgress?: (seconds: number) => void; // seconds of the chunk's samples played so far
+}
+
+// Steers the request that is playing without restarting it
+interface ActivePlayback {
+  requestId: string;
+  seek(target: SeekTarget): boolean; // false when the target does not exist
+  updateSettings(settings: TTSSettings): Promise<void>;
+}
 
 let audioContext: AudioContext | null = null;
-let textToSpeech: TextToSpeech | null = null;
-let currentStyle: Style | null = null;
-let currentVoice: VoiceId | null = null;
+let currentStyle: VoiceStyleData | null = null;
+let currentVoiceKey: string | null = null;
+// Built-in styles are kept around since blended voices are recomputed from them
+const builtinStyles = new Map<BuiltinVoiceId, VoiceStyleData>();
 let activeRequestId: string | null = null;
+// Cancels in-flight synthesis for the active request on stop or when a new request starts
+let activeAbortController: AbortController | null = null;
+// Exports run alongside playback and are cancelled separately
+let activeExportController: AbortController | null = null;
+// Auto quality mode; kept across requests so its speed estimate carries over
+let adaptiveQuality: AdaptiveQuality | null = null;
+let activePlayback: ActivePlayback | null = null;
+
+// Streaming playback: chunks are queued in the time-stretch worklet ahead of time and play
+// back to back; the worklet reports each one starting, progressing and ending
+let stretchNode: AudioWorkletNode | null = null;
+let playbackRate = 1;
+let nextChunkId = 0;
+const scheduledChunks = new Map<number, ChunkCallbacks & { resolve: () => void }>();
+// Set between pause and resume, so no new chunk is queued or spoken while paused
+let paused = false;
+// Highlights waiting for their chunk's voice to be heard. They run on wall-clock timers, so
+// pause stops them with the time left and resume starts them again
+interface PendingHighlight {
+  timer: ReturnType<typeof setTimeout> | null; // null while paused
+  dueAt: number; // performance.now() time it runs at, while armed
+  remainingMs: number; // time left, while paused
+  run: () => void;
+}
+const pendingHighlights = new Set<PendingHighlight>();
 
-// Audio queue for streaming playback
-let audioQueue: AudioBufferSourceNode[] = [];
-let nextPlayTime = 0;
-let isPlaying = false;
+const supertonic = new SupertonicEngine({
+  onnxDir: ONNX_DIR,
+  warmUpStyle: () => loadBuiltinStyle('M1'),
+  canReload: () => activeExportController === null,
+  notify: notifyBackground
+});
+const webSpeech = new WebSpeechEngine();
+const normalizer = new TextNormalizer();
 
 // Global error handlers to catch any unhandled errors
 self.addEventListener('error', (event) => {
@@ -71,7 +188,32 @@ async function routeMessage(message: BackgroundToOffscreenMessage): Promise<void
       break;
     case 'stop':
       stop();
+      activePlayback = null;
       activeRequestId = null;
+      activeAbortController?.abort();
+      activeAbortController = null;
+      break;
+    case 'seek':
+      if (!activePlayback) {
+        await debug('seek-ignored', { target: message.target, reason: 'nothing-playing' });
+      } else if (activePlayback.seek(message.target)) {
+        // Seeking while paused carries on playing from the new position
+        resume();
+      }
+      break;
+    case 'export-audio':
+      await exportAudio(message.payload);
+      break;
+    case 'cancel-export':
+      activeExportController?.abort();
+      activeExportController = null;
+      break;
+    case 'update-settings':
+      supertonic.forgetFailure();
+      await updateSettings(message.requestId, message.settings);
+      break;
+    case 'retry-model':
+      supertonic.forgetFailure();
       break;
     default:
       break;
@@ -79,26 +221,43 @@ async function routeMessage(message: BackgroundToOffscreenMessage): Promise<void
 }
 
 async function synthesizeAndPlay(request: TTSRequest): Promise<void> {
+  activeAbortController?.abort();
+  const abortController = new AbortController();
+  activeAbortController = abortController;
+  const { signal } = abortController;
+  activePlayback = null;
+  let playback: ActivePlayback | null = null;
+
   try {
     activeRequestId = request.requestId;
+    await debug('synth-step', 'ensuring-engine');
+    const engine = await ensureEngine(request.settings);
+    setPlaybackRate(request.settings.speed);
+    if (engine.kind === 'speech') {
+      await speakRequest(engine, request, abortController);
+      return;
+    }
+    // Replaced by updates from the popup during playback
+    let settings = request.settings;
     await debug('synth-step', 'ensuring-audio-context');
-    await ensureAudioContext();
-    await debug('synth-step', 'ensuring-tts');
-    await ensureTextToSpeech();
+    await ensureAudioContext(engine.sampleRate);
     await debug('synthesis-start', { requestId: request.requestId, textLength: request.text.length });
     await debug('synth-step', 'loading-voice-style');
-    const style = await ensureVoiceStyle(request.settings.voice);
+    const style = await ensureVoiceStyle(request.settings.voice, request.voiceBlend);
     await debug('synth-step', 'voice-style-loaded');
 
     // Reset audio state
     stopAllAudio();
-    isPlaying = true;
+    paused = false;
     let totalDuration = 0;
 
-    // Get text chunks
-    const textChunks = textToSpeech!.getChunks(request.text);
-    const totalChunks = textChunks.length;
-    await debug('text-chunks', { totalChunks, lengths: textChunks.map(c => c.length) });
+    // Split the text into chunks, each with its own speed, voice and pauses
+    const plan = await planChunks(request, style, engine);
+    const totalChunks = plan.length;
+    await debug('text-chunks', { totalChunks, lengths: plan.map(c => c.text.length) });
+
+    const unsupported = await checkCharacterCoverage(engine, plan, request.settings);
+    await notifyBackground({ type: 'tts-unsupported-chars', requestId: request.requestId, characters: unsupported });
 
     if (totalChunks === 0) {
       throw new Error('No text chunks to synthesize');
@@ -110,9 +269,38 @@ async function synthesizeAndPlay(request: TTSRequest): Promise<void> {
     const LONG_TEXT_THRESHOLD = 200;  // characters - chunks longer than this produce enough audio
     const SHORT_DURATION_THRESHOLD = 3; // seconds - need more buffer for short audio chunks
     
-    const buffer: Array<{ wav: number[]; duration: number; text: string; index: number }> = [];
+    // `duration` includes the silence around the chunk, `speechDuration` only the voice
+    const buffer: Array<{ wav: Float32Array; duration: number; speechDuration: number; text: string; index: number }> = [];
     let nextToSynthesize = 0;
     let nextToPlay = 0;
+    let currentChunk = 0;
+    let seekCount = 0;
+    let playbackStarted = false;
+    // Replaced on every seek; aborting it cancels synthesis for the old position
+    let position = new AbortController();
+    // Durations of synthesized chunks (at speed 1); the rest are estimated from them
+    const durations = new Map<number, number>();
+    const estimator = new DurationEstimator();
+    // Syntheses running alongside playback; each removes itself when it settles
+    const inFlight: Promise<boolean>[] = [];
+    // The first of them to fail, rethrown by the playback loop
+    let synthesisError = null as { error: unknown } | null;
+    // Chunks queued in the worklet that have not finished: the one playing and the one after
+    // it, which starts on the sample the playing one ends
+    const queued: Array<{ index: number; duration: number; ended: Promise<void> }> = [];
+
+    const getQuality = () => {
+      if (settings.qualityMode !== 'auto') return null;
+      if (adaptiveQuality) {
+        adaptiveQuality.startFrom(settings.qualitySteps);
+      } else {
+        adaptiveQuality = new AdaptiveQuality(settings.qualitySteps);
+      }
+      return adaptiveQuality;
+    };
+    // Before playback starts there is nothing to run dry, so only speed counts
+    const bufferedSeconds = () =>
+      playbackStarted ? buffer.reduce((sum, c) => sum + c.duration, 0) / playbackRate : Infinity;
 
     // Progress callback
     const progressCallback = (step: number, total: number) => {
@@ -122,32 +310,101 @@ async function synthesizeAndPlay(request: TTSRequest): Promise<void> {
       }).catch(() => {});
     };
 
-    // Helper to synthesize one chunk and add to buffer
-    const synthesizeNext = async (): Promise<boolean> => {
+    const takeNextGroup = (maxCount: number): number[] => {
+      const group = groupChunks(plan, nextToSynthesize, maxCount);
+      nextToSynthesize += group.length;
+      return group;
+    };
+
+    // Helper to synthesize up to maxCount chunks (batched when possible) and add them to the buffer
+    const synthesizeNext = async (maxCount = 1): Promise<boolean> => {
       if (nextToSynthesize >= totalChunks) return false;
       if (activeRequestId !== request.requestId) return false;
 
-      const idx = nextToSynthesize;
-      const chunkText = textChunks[idx];
-      nextToSynthesize++;
+      const indices = takeNextGroup(maxCount);
+      const startedAt = position;
+      const quality = getQuality();
+      const previousSteps = quality?.currentSteps;
+      const steps = quality ? quality.next(playbackRate, bufferedSeconds()) : settings.qualitySteps;
+      if (quality && steps !== previousSteps) {
+        await debug('quality-steps', { steps, bufferedSeconds: bufferedSeconds() });
+      }
 
-      await debug('synthesizing-chunk', { chunkIndex: idx, bufferSize: buffer.length, textLength: chunkText.length });
-      
-      const { wav, duration } = await textToSpeech!.synthesizeChunk(
-        chunkText,
-        style,
-        request.settings.qualitySteps,
-        request.settings.speed,
-        progressCallback
-      );
+      await debug('synthesizing-chunk', { chunkIndices: indices, steps, bufferSize: buffer.length, textLengths: indices.map((i) => plan[i].text.length) });
 
-      if (activeRequestId !== request.requestId) return false;
+      quality?.begin();
+      let audioSeconds = 0;
+      let results: Awaited<ReturnType<typeof synthesizeGroup>>;
+      try {
+        const synthesisSignal = AbortSignal.any([signal, startedAt.signal]);
+        results = await synthesizeGroup(engine, plan, indices, settings, steps, progressCallback, synthesisSignal);
+        // Cached chunks cost nothing and would make the machine look faster than it is
+        audioSeconds = results.reduce((sum, r) => sum + (r.cached ? 0 : r.duration), 0);
+      } catch (error) {
+        if (startedAt.signal.aborted && !signal.aborted) return false; // a seek made it stale
+        throw error;
+      } finally {
+        quality?.end(audioSeconds, steps);
+      }
+
+      if (activeRequestId !== request.requestId || startedAt !== position) return false;
 
-      buffer.push({ wav, duration, text: chunkText, index: idx });
-      await debug('chunk-buffered', { chunkIndex: idx, bufferSize: buffer.length, duration: duration.toFixed(1) });
+      results.forEach(({ wav, duration, speechDuration }, i) => {
+        const chunk = plan[indices[i]];
+        buffer.push({ wav, duration, speechDuration, text: chunk.text, index: indices[i] });
+        durations.set(indices[i], duration);
+        estimator.record(chunk.text, duration, chunk.speed);
+      });
+      // Concurrent syntheses can finish out of order
+      buffer.sort((a, b) => a.index - b.index);
+      await debug('chunk-buffered', {
+        chunkIndices: indices,
+        bufferSize: buffer.length,
+        durations: results.map((r) => r.duration.toFixed(1))
+      });
       return true;
     };
 
+    // Synthesize `count` chunks as a few batched calls running alongside playback
+    const startSynthesis = (count: number): Promise<boolean>[] => {
+      const promises: Promise<boolean>[] = [];
+      let remaining = count;
+      while (remaining > 0 && nextToSynthesize < totalChunks) {
+        const before = nextToSynthesize;
+        promises.push(synthesizeNext(remaining));
+        remaining -= nextToSynthesize - before;
+      }
+      return promises;
+    };
+
+    // Elapsed and total listening time at the current speed, `secondsIntoChunk` into chunk `index`
+    const measurePosition = (index: number, secondsIntoChunk: number) => {
+      let before = 0;
+      let total = 0;
+      for (let i = 0; i < totalChunks; i++) {
+        const duration = durations.get(i) ?? estimator.estimate(plan[i].text, plan[i].speed);
+        if (i < index) before += duration;
+        if (i === index) before += Math.min(secondsIntoChunk, duration);
+        total += duration;
+      }
+      return { positionSeconds: before / playbackRate, durationSeconds: total / playbackRate };
+    };
+
+    // Start synthesizing `count` chunks without waiting for them
+    const synthesizeAhead = (count: number) => {
+      for (const promise of startSynthesis(count)) {
+        const tracked: Promise<boolean> = promise
+          .catch((error: unknown) => {
+            synthesisError ??= { error };
+            return false;
+          })
+          .finally(() => {
+            inFlight.splice(inFlight.indexOf(tracked), 1);
+          });
+        inFlight.push(tracked);
+      }
+    };
+
     // Calculate how many chunks to buffer during playback
     const getTargetBufferSize = (): number => {
       const avgBufferedDuration = buffer.length > 0
@@ -157,7 +414,7 @@ async function synthesizeAndPlay(request: TTSRequest): Promise<void> {
       // Check upcoming chunk lengths
       let shortChunksAhead = 0;
       for (let i = nextToSynthesize; i < Math.min(nextToSynthesize + 3, totalChunks); i++) {
-        if (textChunks[i].length < SHORT_TEXT_THRESHOLD) shortChunksAhead++;
+        if (plan[i].text.length < SHORT_TEXT_THRESHOLD) shortChunksAhead++;
       }
       
       // Need more buffer for short chunks or short durations
@@ -167,86 +424,184 @@ async function synthesizeAndPlay(request: TTSRequest): Promise<void> {
       return 2;
     };
 
-    // Dynamic initial buffer size based on first chunk's content
+    // Dynamic initial buffer size based on the first chunk's content (at the start or after a seek)
     // Long first chunk = start playing after just 1 chunk (faster time-to-audio)
     // Short first chunk = buffer 2 chunks to avoid gaps
-    const firstChunkLength = textChunks[0].length;
-    const initialBufferSize = firstChunkLength >= LONG_TEXT_THRESHOLD ? 1 : 2;
-    const actualInitialSize = Math.min(initialBufferSize, totalChunks);
+    const getInitialBufferSize = (start: number): number =>
+      Math.min(plan[start].text.length >= LONG_TEXT_THRESHOLD ? 1 : 2, totalChunks - start);
+
+    const firstChunkLength = plan[0].text.length;
+    const actualInitialSize = getInitialBufferSize(0);
     
     await debug('pre-filling-buffer', { 
       targetSize: actualInitialSize, 
       firstChunkLength,
       reason: firstChunkLength >= LONG_TEXT_THRESHOLD ? 'long-chunk-fast-start' : 'short-chunk-needs-buffer'
     });
+
+    // Throw the look-ahead away (buffered and in-flight chunks) and synthesize again from `index`
+    const restartSynthesis = (index: number) => {
+      position.abort();
+      position = new AbortController();
+      buffer.length = 0;
+      nextToSynthesize = index;
+    };
+
+    playback = {
+      requestId: request.requestId,
+      seek: (target) => {
+        const index = resolveSeekTarget(plan, currentChunk, target);
+        if (index === null) {
+          void debug('seek-ignored', { target, currentChunk });
+          return false;
+        }
+        restartSynthesis(index);
+        nextToPlay = index;
+        seekCount++;
+        queued.length = 0;
+        stopAllAudio();
+        void debug('seek', { from: currentChunk, to: index });
+        currentChunk = index;
+        return true;
+      },
+      updateSettings: async (next) => {
+        const previous = settings;
+        settings = next;
+        if (!request.voiceBlend && next.voice !== previous.voice) {
+          // SSML <voice> chunks keep their own voice
+          const style = await ensureVoiceStyle(next.voice);
+          for (const chunk of plan) {
+            if (chunk.styleKey === 'default') chunk.style = style;
+          }
+        }
+        // In auto mode qualitySteps is only where the controller starts, so it changes nothing already synthesized
+        const audioChanged = CHUNK_AUDIO_SETTINGS.some(
+          (key) => next[key] !== previous[key] && !(key === 'qualitySteps' && next.qualityMode === 'auto')
+        );
+        if (audioChanged && next.resynthesizeBuffered && nextToPlay < totalChunks) {
+          // Chunks queued in the worklet play as they are; everything after them is synthesized again
+          restartSynthesis(nextToPlay);
+          synthesizeAhead(getInitialBufferSize(nextToPlay));
+        }
+        await debug('settings-updated', { audioChanged, resynthesize: audioChanged && next.resynthesizeBuffered === true });
+      }
+    };
+    activePlayback = playback;
     
-    for (let i = 0; i < actualInitialSize; i++) {
-      const success = await synthesizeNext();
-      if (!success) break;
-    }
+    await Promise.all(startSynthesis(actualInitialSize));
+    playbackStarted = true;
 
     // Notify that playback is starting
     await notifyBackground({
       type: 'tts-result',
       result: {
         requestId: request.requestId,
-        sampleRate: textToSpeech!.sampleRate,
-        durationSeconds: 0
+        sampleRate: engine.sampleRate,
+        durationSeconds: measurePosition(0, 0).durationSeconds
       }
     });
 
-    // Play chunks from buffer, synthesizing next while playing
-    while (nextToPlay < totalChunks && activeRequestId === request.requestId) {
-      // Wait for buffer to have something
-      if (buffer.length === 0) {
-        await debug('buffer-empty-waiting');
-        await new Promise(resolve => setTimeout(resolve, 50));
+    // Queue chunks in the worklet as they are synthesized, synthesizing the next ones meanwhile
+    let waitingFor: number | null = null; // chunk the loop last logged waiting for, logged once
+    while ((nextToPlay < totalChunks || queued.length > 0) && activeRequestId === request.requestId) {
+      if (synthesisError) throw synthesisError.error;
+
+      // With the next chunk queued behind the playing one, wait for the playing one to end
+      if (queued.length >= MAX_QUEUED_CHUNKS || nextToPlay >= totalChunks) {
+        const finished = queued[0];
+        const seeksBefore = seekCount;
+        await finished.ended;
+
+        // A seek cuts the chunk short and empties the queue
+        if (seekCount === seeksBefore) {
+          queued.shift();
+          totalDuration += finished.duration;
+          await debug('chunk-finished', { chunkIndex: finished.index, totalDuration, bufferSize: buffer.length });
+        }
+        continue;
+      }
+
+      // Wait for the next chunk in order to be synthesized
+      if (buffer.length === 0 || buffer[0].index !== nextToPlay) {
+        // After a seek nothing is being synthesized for the new position yet
+        if (nextToSynthesize === nextToPlay) {
+          await Promise.all(startSynthesis(getInitialBufferSize(nextToPlay)));
+          continue;
+        }
+        if (waitingFor !== nextToPlay) {
+          waitingFor = nextToPlay;
+          await debug('buffer-empty-waiting', { chunkIndex: nextToPlay });
+        }
+        // Look again when a synthesis settles, or shortly in case the chunk is not among them
+        await Promise.race([...inFlight, new Promise(resolve => setTimeout(resolve, 50))]);
+        continue;
+      }
+
+      // Nothing more is queued while paused; what is queued waits in the suspended worklet
+      if (paused) {
+        await sleep(0.1, signal);
         continue;
       }
 
       // Get next chunk to play
       const chunk = buffer.shift()!;
       nextToPlay++;
+      const seeksBefore = seekCount;
 
-      await debug('playing-chunk', { 
-        chunkIndex: chunk.index, 
-        totalChunks, 
-        bufferRemaining: buffer.length 
+      await debug('queuing-chunk', {
+        chunkIndex: chunk.index,
+        totalChunks,
+        bufferRemaining: buffer.length,
+        queued: queued.length
       });
 
-      // Send highlight BEFORE playing (include duration for accurate word timing)
-      await notifyBackground({
-        type: 'tts-chunk-playing',
-        requestId: request.requestId,
-        chunkIndex: chunk.index,
-        chunkText: chunk.text,
-        durationMs: Math.round(chunk.duration * 1000)
+      const ended = scheduleChunk(chunk.wav, {
+        // Highlight the chunk when it is heard rather than when it is queued (include duration
+        // for accurate word timing)
+        onStart: (time) => {
+          const scale = highlightScale(plan, chunk.index, currentChunk);
+          currentChunk = chunk.index;
+          reportPosition(request.requestId, measurePosition(chunk.index, 0));
+          if (scale === 0) return;
+          // The highlight covers the voice only, not the silence padded around it
+          scheduleHighlight(delayUntil(time) + (plan[chunk.index].pauseBefore / playbackRate) * 1000, () => {
+            if (seekCount !== seeksBefore || activeRequestId !== request.requestId) return;
+            notifyBackground({
+              type: 'tts-chunk-playing',
+              requestId: request.requestId,
+              chunkIndex: chunk.index,
+              chunkText: plan[chunk.index].sourceText,
+              durationMs: Math.round(((chunk.speechDuration * scale) / playbackRate) * 1000)
+            }).catch(() => {});
+          });
+        },
+        onProgress: (seconds) => {
+          reportPosition(request.requestId, measurePosition(chunk.index, seconds));
+        }
       });
+      queued.push({ index: chunk.index, duration: chunk.duration / playbackRate, ended });
 
       // Determine how many chunks to synthesize based on current chunk duration
       // Short chunks (headings) need more buffer to avoid gaps
       const targetBuffer = getTargetBufferSize();
-      const chunksToSynthesize = Math.max(0, targetBuffer - buffer.length);
-      
-      // Start synthesizing while this chunk plays
-      const synthesisPromises: Promise<boolean>[] = [];
-      for (let i = 0; i < chunksToSynthesize && nextToSynthesize < totalChunks; i++) {
-        synthesisPromises.push(synthesizeNext());
-      }
+      // Chunks synthesized or being synthesized ahead of the queue count towards it
+      const chunksToSynthesize = Math.max(0, targetBuffer - (nextToSynthesize - nextToPlay));
 
-      // Play current chunk and wait for it to finish
-      await playChunkAndWait(chunk.wav, textToSpeech!.sampleRate);
-      
-      totalDuration += chunk.duration;
-      await debug('chunk-finished', { chunkIndex: chunk.index, totalDuration, bufferSize: buffer.length });
+      // Start synthesizing while the queued chunks play
+      synthesizeAhead(chunksToSynthesize);
+    }
 
-      // Wait for background synthesis to complete before next iteration
-      await Promise.all(synthesisPromises);
+    // Stopped or superseded by a newer request; don't clear the newer request's state
+    if (activeRequestId !== request.requestId) {
+      await debug('synthesis-cancelled', { requestId: request.requestId });
+      return;
     }
 
     // All done
-    isPlaying = false;
     activeRequestId = null;
+    if (activeAbortController === abortController) {
+      activeAbortController = null;
+    }
     await debug('all-audio-ended', { totalDuration, chunksPlayed: nextToPlay });
     await notifyBackground({
       type: 'tts-complete',
@@ -255,73 +610,659 @@ async function synthesizeAndPlay(request: TTSRequest): Promise<void> {
     });
 
   } catch (error) {
+    // An aborted run can also fail with a session error when the models were swapped under it
+    if (signal.aborted) {
+      await debug('synthesis-aborted', { requestId: request.requestId });
+      return;
+    }
     const message = error instanceof Error ? error.message : 'Unknown synthesis error';
     const stack = error instanceof Error ? error.stack : undefined;
     console.error('[offscreen] Synthesis error:', message, stack);
     await debug('synthesis-error', { message, stack }, 'error');
     await notifyBackground({ type: 'tts-error', requestId: request.requestId, message });
+  } finally {
+    if (playback && activePlayback === playback) {
+      activePlayback = null;
+    }
   }
 }
 
 /**
- * Play a single audio chunk and return a promise that resolves when it finishes
+ * Play a request with an engine that speaks for itself: chunk by chunk with the planned
+ * pauses in between, highlighting each chunk for the engine's estimate of its length.
  */
-function playChunkAndWait(wav: number[], sampleRate: number): Promise<void> {
-  return new Promise((resolve, reject) => {
-    try {
-      const wavArray = new Float32Array(wav);
-      const buffer = audioContext!.createBuffer(1, wavArray.length, sampleRate);
-      buffer.copyToChannel(wavArray, 0);
+async function speakRequest(engine: SpeechEngine, request: TTSRequest, abortController: AbortController): Promise<void> {
+  const { signal } = abortController;
+  stopAllAudio();
+  paused = false;
 
-      const source = audioContext!.createBufferSource();
-      source.buffer = buffer;
-      source.connect(audioContext!.destination);
+  const plan = await planChunks(request, null, engine);
+  if (plan.length === 0) {
+    throw new Error('No text chunks to synthesize');
+  }
+  await debug('text-chunks', { totalChunks: plan.length, engine: engine.id });
+  await notifyBackground({
+    type: 'tts-result',
+    result: { requestId: request.requestId, sampleRate: 0, durationSeconds: 0 }
+  });
 
-      // Store reference for pause/stop
-      audioQueue.push(source);
+  const started = performance.now();
+  // Settings updates apply from the next chunk; nothing is synthesized ahead to redo
+  let settings = request.settings;
+
+  // A seek cuts the current utterance short and carries on at the target
+  let index = 0;
+  let lastSpoken = -1;
+  let position = new AbortController();
+  let seekIndex = 0;
+  const playback: ActivePlayback = {
+    requestId: request.requestId,
+    seek: (target) => {
+      const to = resolveSeekTarget(plan, index, target);
+      if (to === null) {
+        void debug('seek-ignored', { target, currentChunk: index });
+        return false;
+      }
+      seekIndex = to;
+      position.abort();
+      void debug('seek', { from: index, to });
+      return true;
+    },
+    updateSettings: async (next) => {
+      settings = next;
+      await debug('settings-updated', { engine: engine.id });
+    }
+  };
+  activePlayback = playback;
+
+  // The engine reports nothing while it speaks, so the position is the time spent on the
+  // current chunk (paused time aside) against estimates for every chunk
+  let chunkElapsed = 0;
+  const estimateChunk = (i: number) => {
+    const chunk = plan[i];
+    return chunk.pauseBefore + engine.estimateDuration(chunk.text, playbackRate * chunk.speed) + trailingPause(plan, i, settings);
+  };
+  const positionTimer = setInterval(() => {
+    if (!paused) chunkElapsed += POSITION_INTERVAL_MS / 1000;
+    let before = 0;
+    let total = 0;
+    for (let i = 0; i < plan.length; i++) {
+      const duration = estimateChunk(i);
+      if (i < index) before += duration;
+      if (i === index) before += Math.min(chunkElapsed, duration);
+      total += duration;
+    }
+    reportPosition(request.requestId, { positionSeconds: before, durationSeconds: total });
+  }, POSITION_INTERVAL_MS);
 
-      source.onended = () => {
-        const idx = audioQueue.indexOf(source);
-        if (idx !== -1) {
-          audioQueue.splice(idx, 1);
+  try {
+    while (index < plan.length && activeRequestId === request.requestId) {
+      const chunk = plan[index];
+      const chunkSignal = AbortSignal.any([signal, position.signal]);
+      // The speed setting and SSML rates both end up in the utterance rate
+      const rate = playbackRate * chunk.speed;
+      chunkElapsed = 0;
+      try {
+        await sleep(chunk.pauseBefore, chunkSignal);
+        const scale = highlightScale(plan, index, lastSpoken);
+        lastSpoken = index;
+        if (scale > 0) {
+          await notifyBackground({
+            type: 'tts-chunk-playing',
+            requestId: request.requestId,
+            chunkIndex: index,
+            chunkText: chunk.sourceText,
+            durationMs: Math.round(engine.estimateDuration(chunk.text, rate) * scale * 1000)
+          });
+        }
+        await engine.synthesizeChunk(
+          chunk.text,
+          { rate, voice: chunk.voiceName ?? settings.webSpeechVoice, locale: request.locale },
+          chunkSignal
+        );
+        await sleep(trailingPause(plan, index, settings), chunkSignal);
+        while (paused && !chunkSignal.aborted) {
+          await sleep(0.1, chunkSignal);
         }
-        resolve();
-      };
+      } catch (error) {
+        if (!position.signal.aborted || signal.aborted) throw error;
+      }
+
+      if (position.signal.aborted && !signal.aborted) {
+        position = new AbortController();
+        index = seekIndex;
+      } else {
+        index++;
+      }
+    }
+  } finally {
+    clearInterval(positionTimer);
+    if (activePlayback === playback) {
+      activePlayback = null;
+    }
+  }
+
+  if (activeRequestId !== request.requestId) {
+    await debug('synthesis-cancelled', { requestId: request.requestId });
+    return;
+  }
+  activeRequestId = null;
+  if (activeAbortController === abortController) {
+    activeAbortController = null;
+  }
+  await notifyBackground({
+    type: 'tts-complete',
+    requestId: request.requestId,
+    totalDuration: (performance.now() - started) / 1000
+  });
+}
+
+// Wait `seconds`, or less if the signal aborts first
+function sleep(seconds: number, signal: AbortSignal): Promise<void> {
+  if (seconds <= 0 || signal.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, seconds * 1000);
+    signal.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Synthesize a whole article without playing it and hand the encoded file to the background
+ * for download. Chapters come from the article headings. Each batch is time-stretched and
+ * encoded as soon as it is synthesized, so only the encoded file grows with the article.
+ */
+async function exportAudio(request: AudioExportRequest): Promise<void> {
+  activeExportController?.abort();
+  const exportController = new AbortController();
+  activeExportController = exportController;
+  const { signal } = exportController;
+  const { exportId, article, settings } = request;
+
+  try {
+    // Browser voices play straight to the speakers, so only the models can be recorded
+    if ((settings.engine ?? DEFAULT_ENGINE) !== 'supertonic') {
+      throw new Error('Audio export needs the Supertonic voices; browser voices cannot be recorded');
+    }
+    const engine = supertonic;
+    await engine.load(settings);
+    const style = await ensureVoiceStyle(settings.voice);
+    const plan = await planChunks(
+      { requestId: exportId, text: article.content, locale: article.lang, settings, lexicon: request.lexicon },
+      style,
+      engine
+    );
+    if (plan.length === 0) {
+      throw new Error('No text chunks to export');
+    }
+    await checkCharacterCoverage(engine, plan, settings);
+    await debug('export-start', { exportId, format: request.format, totalChunks: plan.length });
+
+    const sampleRate = engine.sampleRate;
+    // Exports are rendered at the speed setting, like playback, which stretches chunk by chunk too
+    const rate = clampPlaybackRate(settings.speed);
+    const opus = request.format === 'webm' ? await OpusStreamEncoder.create(sampleRate, undefined, signal) : null;
+    const wav = opus ? null : new WavWriter(sampleRate);
+
+    const durations: number[] = [];
+    let next = 0;
+    try {
+      while (next < plan.length) {
+        const indices = groupChunks(plan, next, MAX_BATCH_SIZE);
+        next += indices.length;
+        const results = await synthesizeGroup(engine, plan, indices, settings, settings.qualitySteps, null, signal);
+        for (const result of results) {
+          const stretched = timeStretch(result.wav, sampleRate, rate);
+          if (opus) await opus.write(stretched);
+          else wav!.write(stretched);
+          durations.push(result.duration);
+        }
+        await notifyBackground({ type: 'export-progress', exportId, currentChunk: next, totalChunks: plan.length });
+      }
+    } catch (error) {
+      opus?.close();
+      throw error;
+    }
+
+    const metadata: AudioMetadata = {
+      title: article.title,
+      artist: article.byline,
+      chapters: findChapters(plan, durations, article).map((chapter) => ({
+        ...chapter,
+        startSeconds: chapter.startSeconds / rate
+      }))
+    };
+
+    const blob = opus ? muxOpusWebm(await opus.finish(), metadata) : wav!.finish(metadata);
+
+    if (activeExportController !== exportController) return;
+    activeExportController = null;
+
+    const url = URL.createObjectURL(blob);
+    setTimeout(() => URL.revokeObjectURL(url), EXPORT_URL_LIFETIME_MS);
+    await debug('export-complete', { exportId, bytes: blob.size, chapters: metadata.chapters?.length ?? 0 });
+    await notifyBackground({
+      type: 'export-complete',
+      exportId,
+      url,
+      filename: `${exportFileName(article.title)}.${request.format}`
+    });
+  } catch (error) {
+    // Worker calls and the Opus encoder both fail with an AbortError once the signal fires
+    if (signal.aborted) {
+      await debug('export-cancelled', { exportId });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Unknown export error';
+    await debug('export-error', { message }, 'error');
+    await notifyBackground({ type: 'export-error', exportId, message });
+  }
+}
+
+/**
+ * Place a chapter at the first chunk that starts with each heading, searching forward so
+ * repeated headings map to successive chunks. Audio before the first heading gets a chapter
+ * named after the article.
+ */
+function findChapters(plan: PlannedChunk[], durations: number[], article: ArticleContent): AudioChapter[] {
+  const key = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+  const starts: number[] = [];
+  let elapsed = 0;
+  for (const duration of durations) {
+    starts.push(elapsed);
+    elapsed += duration;
+  }
+
+  const chapters: AudioChapter[] = [];
+  let from = 0;
+  for (const heading of article.headings ?? []) {
+    const target = key(heading.text);
+    if (!target) continue;
+    const index = plan.findIndex((chunk, i) => i >= from && key(chunk.sourceText).startsWith(target));
+    if (index === -1) continue;
+    chapters.push({ title: heading.text, startSeconds: starts[index] + plan[index].pauseBefore });
+    from = index + 1;
+  }
+
+  if (chapters.length > 0 && chapters[0].startSeconds > 0) {
+    chapters.unshift({ title: article.title, startSeconds: 0 });
+  }
+  return chapters;
+}
 
-      source.start();
-    } catch (err) {
-      reject(err);
+function exportFileName(title: string): string {
+  const name = title.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100);
+  return name || 'riddi-article';
+}
+
+/**
+ * Turn the request text into synthesis chunks. Plain text uses the request voice at the
+ * model's natural speed throughout; SSML segments can change both and add breaks, which
+ * become silence around the neighbouring chunks. Engines without voice styles get SSML
+ * voices by name instead.
+ */
+async function planChunks(request: TTSRequest, defaultStyle: VoiceStyleData | null, engine: TTSEngine): Promise<PlannedChunk[]> {
+  const lexicon = request.lexicon ?? [];
+  if (lexicon.length > 0) {
+    await debug('lexicon-applied', { rules: lexicon.filter((r) => r.enabled).length });
+  }
+  // Chunks are sized on the source text, then again once the lexicon and the normalizer have
+  // rewritten them, since a spelled-out number can be several times longer than its digits
+  const paragraphsOf = (text: string) =>
+    chunkParagraphs(text, undefined, request.locale).map((paragraph) =>
+      paragraph.flatMap((sourceText) =>
+        splitIntoChunks(spokenText(sourceText, lexicon, engine), MAX_CHUNK_LENGTH, request.locale).map((spoken, sourcePiece) => ({
+          spoken,
+          sourceText,
+          sourcePiece
+        }))
+      )
+    );
+
+  if (!request.ssml) {
+    return paragraphsOf(request.text).flatMap((paragraph) =>
+      paragraph.map(({ spoken: text, sourceText, sourcePiece }, i) => ({
+        text,
+        sourceText,
+        sourcePiece,
+        speed: 1,
+        style: defaultStyle,
+        styleKey: 'default',
+        heading: isHeadingLike(text),
+        paragraphStart: i === 0,
+        pauseBefore: 0,
+        pauseAfter: 0
+      }))
+    );
+  }
+
+  const segments = parseSsml(request.text);
+  await debug('ssml-parsed', { segments: segments.length });
+
+  const styles = new Map<string, VoiceStyleData>();
+  const plan: PlannedChunk[] = [];
+  let leadingPause = 0;
+
+  for (const segment of segments) {
+    if (segment.type === 'break') {
+      if (plan.length > 0) plan[plan.length - 1].pauseAfter += segment.seconds;
+      else leadingPause += segment.seconds;
+      continue;
+    }
+
+    let style = defaultStyle;
+    let styleKey = 'default';
+    let voiceName: string | undefined;
+    if (segment.voice) {
+      const voice = await resolveSsmlVoice(engine, segment.voice);
+      styleKey = voice;
+      if (engine.capabilities.voiceStyles) {
+        if (!styles.has(voice)) styles.set(voice, await loadStyle(voice as VoiceId));
+        style = styles.get(voice)!;
+      } else {
+        voiceName = voice;
+      }
     }
+
+    const chunkSpeed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, segment.rate));
+    paragraphsOf(segment.text).forEach((paragraph, p) => {
+      paragraph.forEach(({ spoken: text, sourceText, sourcePiece }, i) => {
+        plan.push({
+          text,
+          sourceText,
+          sourcePiece,
+          speed: chunkSpeed,
+          style,
+          voiceName,
+          styleKey,
+          heading: isHeadingLike(text),
+          paragraphStart: i === 0 && (p > 0 || segment.paragraphStart),
+          pauseBefore: 0,
+          pauseAfter: 0
+        });
+      });
+    });
+  }
+
+  if (plan.length > 0) plan[0].pauseBefore = leadingPause;
+  return plan;
+}
+
+/**
+ * What the engine reads for `text`: the lexicon applied and, for engines that take raw
+ * characters, numbers, dates and units spelled out. Browser voices read those themselves.
+ */
+function spokenText(text: string, lexicon: LexiconRule[], engine: TTSEngine): string {
+  const replaced = lexicon.length > 0 ? applyLexicon(text, lexicon) : text;
+  return engine.kind === 'samples' ? normalizer.normalize(replaced.normalize('NFKD')) : replaced;
+}
+
+/**
+ * How long the highlight for chunk `index` runs, relative to the chunk: 1 for a whole chunk,
+ * more for a piece of a split one with pieces after it (by their share of characters), and 0
+ * for a piece that follows `previous`, since the highlight the piece before started goes on.
+ */
+function highlightScale(plan: PlannedChunk[], index: number, previous: number): number {
+  if (plan[index].sourcePiece > 0 && previous === index - 1) return 0;
+  let characters = plan[index].text.length;
+  for (let i = index + 1; i < plan.length && plan[i].sourcePiece > 0; i++) {
+    characters += plan[i].text.length;
+  }
+  return characters / Math.max(1, plan[index].text.length);
+}
+
+/**
+ * Log which characters the text has that the model cannot read. With the 'refuse' strategy
+ * any such character fails the request before synthesis starts.
+ */
+async function checkCharacterCoverage(engine: SampleEngine, plan: PlannedChunk[], settings: TTSSettings): Promise<string[]> {
+  const strategy = settings.unknownChars ?? DEFAULT_UNKNOWN_CHAR_STRATEGY;
+  const unsupported = await engine.findUnsupportedCharacters(plan.map((chunk) => chunk.text));
+  if (unsupported.length === 0) return unsupported;
+
+  await debug('unsupported-characters', { characters: unsupported.join(' '), strategy }, 'warn');
+  if (strategy === 'refuse') {
+    throw new Error(`The text contains characters the voice cannot read: ${unsupported.join(' ')}`);
+  }
+  return unsupported;
+}
+
+/**
+ * Pick the chunks starting at `start` to synthesize together. Only neighbours of similar length
+ * are grouped, since every item in a batch is padded to the longest one, and a batch shares
+ * a single style and speed.
+ */
+function groupChunks(plan: PlannedChunk[], start: number, maxCount: number): number[] {
+  const group = [start];
+  const first = plan[start];
+  const limit = Math.min(maxCount, MAX_BATCH_SIZE);
+  while (group.length < limit && start + group.length < plan.length) {
+    const candidate = plan[start + group.length];
+    if (candidate.styleKey !== first.styleKey || candidate.speed !== first.speed) break;
+    const lengths = [...group, start + group.length].map((i) => plan[i].text.length);
+    if (Math.max(...lengths) / Math.max(1, Math.min(...lengths)) > BATCH_LENGTH_RATIO) break;
+    group.push(start + group.length);
+  }
+  return group;
+}
+
+/**
+ * The chunk a seek from `current` lands on, or null when there is none (a chunk index past
+ * the end, forward from the last heading). Back with nothing before goes to the start.
+ */
+function resolveSeekTarget(plan: PlannedChunk[], current: number, target: SeekTarget): number | null {
+  switch (target.kind) {
+    case 'chunk':
+      return Number.isInteger(target.index) && target.index >= 0 && target.index < plan.length ? target.index : null;
+    case 'heading': {
+      const headings = plan.flatMap((chunk, index) => (chunk.heading ? [index] : []));
+      return headings[target.index] ?? null;
+    }
+    case 'relative': {
+      const isStart = (chunk: PlannedChunk) =>
+        target.unit === 'chunk' || (target.unit === 'paragraph' ? chunk.paragraphStart : chunk.heading);
+      if (target.direction === 'forward') {
+        const index = plan.findIndex((chunk, i) => i > current && isStart(chunk));
+        return index === -1 ? null : index;
+      }
+      for (let i = current - 1; i > 0; i--) {
+        if (isStart(plan[i])) return i;
+      }
+      return 0;
+    }
+  }
+}
+
+/**
+ * Synthesize a group from groupChunks (batched when it has more than one chunk), clean up
+ * each chunk (trim, loudness, fades) and add its planned silence plus the pause between
+ * chunks. Durations include the silence. Chunks found in the audio cache are not
+ * synthesized again; new ones are added to it.
+ */
+async function synthesizeGroup(
+  engine: SampleEngine,
+  plan: PlannedChunk[],
+  indices: number[],
+  settings: TTSSettings,
+  steps: number,
+  progressCallback: ((step: number, total: number) => void) | null,
+  signal: AbortSignal
+): Promise<Array<{ wav: Float32Array; duration: number; speechDuration: number; cached: boolean }>> {
+  const { style, speed } = plan[indices[0]];
+  if (!style) {
+    throw new Error(`The ${engine.id} engine needs a voice style for every chunk`);
+  }
+  const sampleRate = engine.sampleRate;
+  const unknownChars = settings.unknownChars ?? DEFAULT_UNKNOWN_CHAR_STRATEGY;
+
+  const keys = await Promise.all(indices.map((i) => audioCacheKey({
+    text: plan[i].text,
+    style,
+    speed,
+    steps,
+    seed: settings.seed,
+    unknownChars,
+    modelVersion: EXTENSION_VERSION
+  })));
+  // The cache only saves time; if IndexedDB fails, synthesize as if it were empty
+  const hits = await Promise.all(keys.map((key) => getCachedAudio(key).catch(() => null)));
+  const wavs = hits.map((hit) => (hit && hit.sampleRate === sampleRate ? hit.wav : null));
+  const missing = indices.filter((_, i) => wavs[i] === null);
+  if (missing.length < indices.length) {
+    await debug('audio-cache-hit', { chunkIndices: indices.filter((_, i) => wavs[i] !== null) });
+  }
+
+  if (missing.length > 0) {
+    const synthesized = await engine.synthesizeChunks(
+      missing.map((i) => plan[i].text),
+      { style, steps, speed, seed: settings.seed, unknownChars },
+      signal,
+      progressCallback ?? undefined
+    );
+    missing.forEach((index, j) => {
+      const position = indices.indexOf(index);
+      wavs[position] = synthesized[j];
+      void putCachedAudio(keys[position], synthesized[j], sampleRate).catch((error) => {
+        void debug('audio-cache-error', String(error), 'warn');
+      });
+    });
+  }
+
+  const postProcess = { ...DEFAULT_POST_PROCESS_OPTIONS, normalizeLoudness: settings.normalizeLoudness ?? true };
+
+  return wavs.map((wav, i) => {
+    const { pauseBefore } = plan[indices[i]];
+    const cleaned = postProcessChunk(wav!, sampleRate, postProcess);
+    const trailing = trailingPause(plan, indices[i], settings);
+    return {
+      wav: padWithSilence(cleaned, sampleRate, pauseBefore, trailing),
+      duration: cleaned.length / sampleRate + pauseBefore + trailing,
+      speechDuration: cleaned.length / sampleRate,
+      cached: !missing.includes(indices[i])
+    };
+  });
+}
+
+/**
+ * Seconds of silence after a chunk: its SSML break plus the pause for a heading, the end of a
+ * paragraph or the end of a chunk within a paragraph.
+ */
+function trailingPause(plan: PlannedChunk[], index: number, settings: TTSSettings): number {
+  const chunk = plan[index];
+  const endsParagraph = plan[index + 1]?.paragraphStart ?? true;
+  const pauseMs = chunk.heading
+    ? settings.headingPauseMs ?? DEFAULT_HEADING_PAUSE_MS
+    : endsParagraph
+      ? settings.paragraphPauseMs ?? DEFAULT_PARAGRAPH_PAUSE_MS
+      : settings.chunkPauseMs ?? DEFAULT_CHUNK_PAUSE_MS;
+  return chunk.pauseAfter + pauseMs / 1000;
+}
+
+/**
+ * Map an SSML <voice name> to one of the engine's voices, by id (M1, a custom voice id) or by name.
+ */
+async function resolveSsmlVoice(engine: TTSEngine, name: string): Promise<string> {
+  const wanted = name.toLowerCase();
+  const voices = await engine.voices();
+  const match = voices.find((voice) => voice.id.toLowerCase() === wanted)
+    ?? voices.find((voice) => voice.name.toLowerCase() === wanted);
+  if (!match) {
+    throw new Error(`Unknown SSML voice "${name}"`);
+  }
+  return match.id;
+}
+
+function padWithSilence(wav: Float32Array, sampleRate: number, before: number, after: number): Float32Array {
+  if (before <= 0 && after <= 0) return wav;
+  const lead = Math.round(before * sampleRate);
+  const padded = new Float32Array(lead + wav.length + Math.round(after * sampleRate));
+  padded.set(wav, lead);
+  return padded;
+}
+
+/**
+ * Queue a chunk in the time-stretch worklet behind the chunks queued already and return a
+ * promise that resolves when it has been played out (or when playback is stopped)
+ */
+function scheduleChunk(wav: Float32Array, callbacks: ChunkCallbacks = {}): Promise<void> {
+  const id = ++nextChunkId;
+  return new Promise((resolve) => {
+    scheduledChunks.set(id, { ...callbacks, resolve });
+    postToWorklet({ type: 'play', id, samples: wav });
   });
 }
 
+// Milliseconds until audio at `time` on the AudioContext timeline reaches the speakers
+function delayUntil(time: number): number {
+  if (!audioContext) return 0;
+  return Math.max(0, (time + (audioContext.outputLatency || 0) - audioContext.currentTime) * 1000);
+}
+
+function reportPosition(requestId: string, position: { positionSeconds: number; durationSeconds: number }): void {
+  notifyBackground({ type: 'tts-position', requestId, ...position }).catch(() => {});
+}
+
+function setPlaybackRate(rate: number): void {
+  playbackRate = clampPlaybackRate(rate);
+  postToWorklet({ type: 'rate', rate: playbackRate });
+  void debug('playback-rate', { rate: playbackRate });
+}
+
+/**
+ * Apply changed settings: speed right away, the rest to the active request if it is the one
+ * the background means. Engine and backend changes wait for the next request.
+ */
+async function updateSettings(requestId: string | null, settings: TTSSettings): Promise<void> {
+  if (clampPlaybackRate(settings.speed) !== playbackRate) {
+    setPlaybackRate(settings.speed);
+  }
+  if (activePlayback && activePlayback.requestId === requestId) {
+    await activePlayback.updateSettings(settings);
+  }
+}
+
+function clampPlaybackRate(rate: number): number {
+  return Math.min(MAX_STRETCH_RATE, Math.max(MIN_STRETCH_RATE, rate));
+}
+
+function postToWorklet(message: ToTimeStretchMessage): void {
+  stretchNode?.port.postMessage(message);
+}
+
 async function debug(message: string, detail?: unknown, level: 'info' | 'warn' | 'error' = 'info'): Promise<void> {
   await notifyBackground({ type: 'debug-log', level, message, detail });
 }
 
 function pause(): void {
-  if (!audioContext) return;
-  
-  // Immediately stop all currently playing audio for instant pause
-  for (const source of audioQueue) {
-    try {
-      source.stop();
-      source.disconnect();
-    } catch {
-      // Source may have already ended
-    }
+  // Browser voices are paused separately; the audio graph is idle while they speak
+  paused = true;
+  webSpeech.pause();
+  for (const pending of pendingHighlights) {
+    if (pending.timer === null) continue;
+    clearTimeout(pending.timer);
+    pending.timer = null;
+    pending.remainingMs = Math.max(0, pending.dueAt - performance.now());
   }
-  audioQueue = [];
-  
-  // Suspend the context to prevent any scheduled audio
-  if (audioContext.state === 'running') {
+
+  // Suspending the context freezes the worklet mid-chunk, at the sample it had reached, so
+  // resume carries on from there with the chunk and the rest of the queue intact
+  if (audioContext?.state === 'running') {
     void audioContext.suspend();
   }
-  
-  void debug('pause-executed', { queueCleared: true });
+
+  void debug('pause-executed');
 }
 
 function resume(): void {
+  paused = false;
+  webSpeech.resume();
+  for (const pending of pendingHighlights) {
+    if (pending.timer === null) armHighlight(pending, pending.remainingMs);
+  }
   if (audioContext && audioContext.state === 'suspended') {
     void audioContext.resume();
   }
@@ -333,66 +1274,142 @@ function stop(): void {
 }
 
 function stopAllAudio(): void {
-  // Stop all queued audio sources
-  for (const source of audioQueue) {
-    try {
-      source.stop();
-      source.disconnect();
-    } catch {
-      // Source may have already ended
-    }
+  // Drop everything queued in the worklet and release whoever is waiting on it
+  postToWorklet({ type: 'clear' });
+  for (const chunk of scheduledChunks.values()) {
+    chunk.resolve();
+  }
+  scheduledChunks.clear();
+  for (const pending of pendingHighlights) {
+    if (pending.timer !== null) clearTimeout(pending.timer);
   }
-  audioQueue = [];
-  isPlaying = false;
-  nextPlayTime = 0;
+  pendingHighlights.clear();
 }
 
-async function ensureAudioContext(): Promise<void> {
+function scheduleHighlight(delayMs: number, run: () => void): void {
+  const pending: PendingHighlight = { timer: null, dueAt: 0, remainingMs: delayMs, run };
+  pendingHighlights.add(pending);
+  if (!paused) armHighlight(pending, delayMs);
+}
+
+function armHighlight(pending: PendingHighlight, delayMs: number): void {
+  pending.dueAt = performance.now() + delayMs;
+  pending.timer = setTimeout(() => {
+    pendingHighlights.delete(pending);
+    pending.run();
+  }, delayMs);
+}
+
+/**
+ * Create the audio graph on first use. The context runs at the model's sample rate so the
+ * worklet can play synthesized samples as they are.
+ */
+async function ensureAudioContext(sampleRate: number): Promise<void> {
   if (!audioContext) {
-    audioContext = new AudioContext();
+    const context = new AudioContext({ sampleRate });
+    await context.audioWorklet.addModule(timeStretchWorkletUrl);
+    const node = new AudioWorkletNode(context, 'time-stretch', { numberOfInputs: 0, outputChannelCount: [1] });
+    node.port.onmessage = (event: MessageEvent<FromTimeStretchMessage>) => {
+      const message = event.data;
+      const chunk = scheduledChunks.get(message.id);
+      switch (message.type) {
+        case 'started':
+          chunk?.onStart?.(message.time);
+          break;
+        case 'progress':
+          chunk?.onProgress?.(message.seconds);
+          break;
+        case 'ended':
+          scheduledChunks.delete(message.id);
+          chunk?.resolve();
+          break;
+      }
+    };
+    node.connect(context.destination);
+    audioContext = context;
+    stretchNode = node;
   }
   if (audioContext.state === 'suspended') {
     await audioContext.resume();
   }
 }
 
-async function ensureTextToSpeech(): Promise<void> {
-  if (textToSpeech) return;
-
-  // Prefer single-threaded WASM (SharedArrayBuffer not guaranteed in offscreen).
-  ort.env.wasm.numThreads = 1;
-  // Map bundled WASM filenames to their hashed URLs.
-  ort.env.wasm.wasmPaths = {
-    'ort-wasm-simd-threaded.wasm': wasmSimdThreaded,
-    'ort-wasm-simd-threaded.jsep.wasm': wasmJsep,
-    'ort-wasm-simd-threaded.asyncify.wasm': wasmAsyncify
-  };
+/**
+ * The engine the settings ask for, loaded. When the Supertonic models fail to load, playback
+ * carries on with the browser's voices and the popup is told why.
+ */
+async function ensureEngine(settings: TTSSettings): Promise<TTSEngine> {
+  if ((settings.engine ?? DEFAULT_ENGINE) === 'web-speech') {
+    await webSpeech.load(settings);
+    await notifyBackground({ type: 'engine-info', info: { id: webSpeech.id } });
+    return webSpeech;
+  }
 
-  const wasmResult = await loadTextToSpeech(
-    ONNX_DIR,
-    { executionProviders: ['wasm'], graphOptimizationLevel: 'all' },
-    (name, current, total) => {
-      void debug('model-loading', { name, current, total });
+  try {
+    await supertonic.load(settings);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    await debug('engine-fallback', { from: supertonic.id, to: webSpeech.id, reason }, 'warn');
+    try {
+      await webSpeech.load(settings);
+    } catch {
+      throw error; // report the model error, which is the one worth fixing
     }
-  );
-  textToSpeech = wasmResult.textToSpeech;
-  
-  // Wire up debug callback to trace TTS pipeline
-  textToSpeech.debugCallback = (message, detail) => {
-    void debug(`tts:${message}`, detail);
-  };
-  
-  await debug('tts-loaded');
+    await notifyBackground({ type: 'engine-info', info: { id: webSpeech.id, fallbackReason: reason } });
+    return webSpeech;
+  }
+  await notifyBackground({ type: 'engine-info', info: { id: supertonic.id } });
+  return supertonic;
 }
 
-async function ensureVoiceStyle(voice: VoiceId): Promise<Style> {
-  if (currentStyle && currentVoice === voice) return currentStyle;
-  const stylePath = `${VOICE_STYLE_DIR}/${voice}.json`;
-  currentStyle = await loadVoiceStyle([stylePath], true);
-  currentVoice = voice;
+async function ensureVoiceStyle(voice: VoiceId, blend?: VoiceBlendComponent[]): Promise<VoiceStyleData> {
+  const key = blend ? `blend:${JSON.stringify(blend)}` : voice;
+  if (currentStyle && currentVoiceKey === key) return currentStyle;
+
+  currentStyle = blend ? await loadBlendedStyle(blend) : await loadStyle(voice);
+  currentVoiceKey = key;
   return currentStyle;
 }
 
+async function loadStyle(voice: VoiceId): Promise<VoiceStyleData> {
+  if (!isCustomVoiceId(voice)) {
+    return loadBuiltinStyle(voice);
+  }
+  const customVoice = await getCustomVoice(voice);
+  if (!customVoice) {
+    throw new Error(`Custom voice ${voice} was not found`);
+  }
+  return customVoice.kind === 'import'
+    ? loadImportedStyle(customVoice)
+    : loadBlendedStyle(customVoice.blend);
+}
+
+async function loadBuiltinStyle(voice: BuiltinVoiceId): Promise<VoiceStyleData> {
+  const cached = builtinStyles.get(voice);
+  if (cached) return cached;
+  const response = await fetch(`${VOICE_STYLE_DIR}/${voice}.json`);
+  const style = parseVoiceStyle(await response.json());
+  builtinStyles.set(voice, style);
+  return style;
+}
+
+async function loadBlendedStyle(blend: VoiceBlendComponent[]): Promise<VoiceStyleData> {
+  const styles = await Promise.all(blend.map((component) => loadBuiltinStyle(component.voice)));
+  await debug('voice-blend', { blend });
+  return blendVoiceStyles(styles, blend.map((component) => component.weight));
+}
+
+// Imports are validated in the popup, but re-check here so a stale or hand-edited
+// record fails with a readable error instead of a shape mismatch deep inside _infer
+async function loadImportedStyle(voice: ImportedCustomVoice): Promise<VoiceStyleData> {
+  const reference = await loadBuiltinStyle('M1');
+  const problem = checkVoiceStyleDims(voice.style, { ttl: reference.ttl.dims, dp: reference.dp.dims });
+  if (problem) {
+    throw new Error(`Imported voice "${voice.name}" does not fit this model: ${problem}`);
+  }
+  return voice.style;
+}
+
 async function notifyBackground(message: OffscreenToBackgroundMessage): Promise<void> {
   await chrome.runtime.sendMessage(message);
 }
@@ -0,0 +1,224 @@
+import { BUILTIN_VOICE_IDS, listCustomVoices } from '@lib/storage/voices';
+import type { FromTtsWorkerMessage, OffscreenToBackgroundMessage, ToTtsWorkerMessage } from '@shared/messages';
+import type { ExecutionBackend, TTSSettings, VoiceStyleData } from '@shared/types';
+import type { EngineCapabilities, EngineVoice, SampleEngine, SampleSynthesisOptions } from './engine';
+import ttsWorkerUrl from './tts.worker.ts?worker&url';
+
+const DEFAULT_BACKEND: ExecutionBackend = 'auto';
+
+// Inference runs in a dedicated worker; each call waits for the reply carrying its id
+interface WorkerCall {
+  resolve: (reply: FromTtsWorkerMessage) => void;
+  reject: (error: Error) => void;
+  onProgress?: (step: number, total: number) => void;
+}
+
+export interface SupertonicEngineOptions {
+  onnxDir: string;
+  warmUpStyle: () => Promise<VoiceStyleData>; // for the WebGPU check in 'auto'
+  // Whether loaded models may be swapped for another backend right now
+  canReload: () => boolean;
+  notify: (message: OffscreenToBackgroundMessage) => Promise<void>;
+}
+
+/**
+ * The bundled Supertonic ONNX models, run in tts.worker.
+ */
+export class SupertonicEngine implements SampleEngine {
+  readonly id = 'supertonic';
+  readonly kind = 'samples';
+  readonly capabilities: EngineCapabilities = { renderSamples: true, voiceStyles: true, seed: true };
+  sampleRate = 0;
+
+  // Backend the worker's models were loaded with; null until they are loaded
+  private loadedBackend: ExecutionBackend | null = null;
+  // Why loading failed on a backend, so later requests fall back at once instead of reading the
+  // models again. The offscreen document is recreated when the extension updates, so this lasts
+  // one version at most.
+  private failure: { backend: ExecutionBackend; error: unknown } | null = null;
+  // The load in progress; a second load waits for it instead of creating sessions alongside
+  private loading: Promise<void> | null = null;
+  private worker: Worker | null = null;
+  private nextCallId = 0;
+  private readonly calls = new Map<number, WorkerCall>();
+
+  constructor(private readonly options: SupertonicEngineOptions) {}
+
+  /**
+   * Load the models in the worker on the requested backend, or reload them when the backend
+   * setting changed.
+   */
+  async load(settings: TTSSettings): Promise<void> {
+    while (this.loading) {
+      await this.loading.catch(() => {});
+    }
+    const backend = settings.backend ?? DEFAULT_BACKEND;
+    if (this.loadedBackend === backend) return;
+    if (this.failure?.backend === backend) throw this.failure.error;
+    if (this.loadedBackend && !this.options.canReload()) {
+      // Sessions cannot be swapped under a running export; the new backend applies next time
+      this.debug('backend-change-deferred', { loaded: this.loadedBackend, requested: backend });
+      return;
+    }
+
+    this.loading = this.loadModels(backend).finally(() => {
+      this.loading = null;
+    });
+    await this.loading;
+  }
+
+  private async loadModels(backend: ExecutionBackend): Promise<void> {
+    const reply = await this.call('loaded', {
+      type: 'load',
+      id: ++this.nextCallId,
+      onnxDir: this.options.onnxDir,
+      backend,
+      warmUpStyle: await this.options.warmUpStyle()
+    })
+      .catch((error: unknown) => {
+        this.failure = { backend, error };
+        throw error;
+      })
+      .finally(() => this.options.notify({ type: 'model-progress', progress: null }));
+
+    this.sampleRate = reply.sampleRate;
+    this.loadedBackend = backend;
+    this.debug('tts-loaded', { backend, providers: reply.providers });
+    await this.options.notify({ type: 'backend-info', info: { requested: backend, providers: reply.providers } });
+  }
+
+  /**
+   * Try loading again on the next request, after settings changed or the user asked to.
+   */
+  forgetFailure(): void {
+    this.failure = null;
+  }
+
+  async voices(): Promise<EngineVoice[]> {
+    const custom = await listCustomVoices();
+    return [
+      ...BUILTIN_VOICE_IDS.map((id) => ({ id, name: id, lang: 'en' })),
+      ...custom.map((voice) => ({ id: voice.id, name: voice.name, lang: 'en' }))
+    ];
+  }
+
+  async synthesizeChunks(
+    texts: string[],
+    options: SampleSynthesisOptions,
+    signal: AbortSignal,
+    onProgress?: (step: number, total: number) => void
+  ): Promise<Float32Array[]> {
+    const { wavs } = await this.call(
+      'audio',
+      {
+        type: 'synthesize',
+        id: ++this.nextCallId,
+        texts,
+        style: options.style,
+        steps: options.steps,
+        speed: options.speed,
+        seed: options.seed,
+        unknownChars: options.unknownChars,
+        reportProgress: onProgress !== undefined
+      },
+      signal,
+      onProgress
+    );
+    return wavs;
+  }
+
+  async findUnsupportedCharacters(texts: string[]): Promise<string[]> {
+    const { characters } = await this.call('coverage', { type: 'check-coverage', id: ++this.nextCallId, texts });
+    return characters;
+  }
+
+  /**
+   * Send a request to the worker and wait for its reply of the `expected` type. Aborting
+   * the signal cancels the request in the worker and rejects with an AbortError.
+   */
+  private call<T extends FromTtsWorkerMessage['type']>(
+    expected: T,
+    message: Exclude<ToTtsWorkerMessage, { type: 'cancel' }>,
+    signal?: AbortSignal,
+    onProgress?: (step: number, total: number) => void
+  ): Promise<Extract<FromTtsWorkerMessage, { type: T }>> {
+    const worker = this.ensureWorker();
+    const { id } = message;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Synthesis aborted', 'AbortError'));
+        return;
+      }
+      const onAbort = () => {
+        this.calls.delete(id);
+        worker.postMessage({ type: 'cancel', id } satisfies ToTtsWorkerMessage);
+        reject(new DOMException('Synthesis aborted', 'AbortError'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.calls.set(id, {
+        resolve: (reply) => {
+          signal?.removeEventListener('abort', onAbort);
+          if (reply.type === expected) {
+            resolve(reply as Extract<FromTtsWorkerMessage, { type: T }>);
+          } else {
+            reject(new Error(`Unexpected reply from the TTS worker: ${reply.type}`));
+          }
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress
+      });
+      worker.postMessage(message);
+    });
+  }
+
+  private ensureWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(ttsWorkerUrl, { type: 'module' });
+    worker.onmessage = (event: MessageEvent<FromTtsWorkerMessage>) => {
+      const reply = event.data;
+      switch (reply.type) {
+        case 'model-progress':
+          void this.options.notify({ type: 'model-progress', progress: reply.progress });
+          return;
+        case 'debug':
+          this.debug(reply.message, reply.detail, reply.level);
+          return;
+        case 'step-progress':
+          this.calls.get(reply.id)?.onProgress?.(reply.step, reply.totalSteps);
+          return;
+      }
+
+      const call = this.calls.get(reply.id);
+      this.calls.delete(reply.id);
+      if (!call) return; // cancelled
+      if (reply.type === 'error') {
+        call.reject(reply.aborted ? new DOMException(reply.message, 'AbortError') : new Error(reply.message));
+      } else {
+        call.resolve(reply);
+      }
+    };
+    // A crashed worker (out of memory in the vocoder, say) takes its models with it
+    worker.onerror = (event) => {
+      console.error('[offscreen] TTS worker error:', event.message);
+      this.debug('tts-worker-error', { message: event.message }, 'error');
+      worker.terminate();
+      this.worker = null;
+      this.loadedBackend = null;
+      const error = new Error(`The TTS worker stopped: ${event.message || 'unknown error'}`);
+      for (const call of this.calls.values()) {
+        call.reject(error);
+      }
+      this.calls.clear();
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private debug(message: string, detail?: unknown, level: 'info' | 'warn' | 'error' = 'info'): void {
+    void this.options.notify({ type: 'debug-log', level, message, detail });
+  }
+}
@@ -0,0 +1,90 @@
+import { TimeStretcher } from '@lib/audio/wsola';
+import type { FromTimeStretchMessage, ToTimeStretchMessage } from '@shared/messages';
+
+// AudioWorkletGlobalScope is not part of the DOM lib
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+// How often the playing chunk's position is reported, in seconds of output
+const PROGRESS_INTERVAL = 0.5;
+
+/**
+ * Plays queued chunks through the WSOLA stretcher, so playback speed can change at any
+ * render quantum without re-synthesizing. A queued chunk starts on the sample after the
+ * previous one ends, so there is no gap between them. Posts 'started' with the context time
+ * of each chunk's first sample, 'progress' while it plays and 'ended' when it finishes.
+ */
+class TimeStretchProcessor extends AudioWorkletProcessor {
+  private readonly stretcher = new TimeStretcher(sampleRate);
+  private readonly queue: Array<{ id: number; samples: Float32Array }> = [];
+  private currentId: number | null = null;
+  private sinceProgress = 0; // output samples since the last 'progress'
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<ToTimeStretchMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'play':
+          this.queue.push({ id: message.id, samples: message.samples });
+          break;
+        case 'rate':
+          this.stretcher.rate = message.rate;
+          break;
+        case 'clear':
+          this.queue.length = 0;
+          this.currentId = null;
+          this.stretcher.load(new Float32Array(0));
+          break;
+      }
+    };
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const output = outputs[0];
+    const channel = output[0];
+    let written = 0;
+
+    while (written < channel.length) {
+      if (this.currentId === null) {
+        const next = this.queue.shift();
+        if (!next) break;
+        this.currentId = next.id;
+        this.stretcher.load(next.samples);
+        this.sinceProgress = 0;
+        this.port.postMessage({
+          type: 'started',
+          id: next.id,
+          time: currentTime + written / sampleRate
+        } satisfies FromTimeStretchMessage);
+      }
+      const read = this.stretcher.read(channel, written, channel.length - written);
+      written += read;
+      this.sinceProgress += read;
+      if (this.sinceProgress >= PROGRESS_INTERVAL * sampleRate && !this.stretcher.done) {
+        this.sinceProgress = 0;
+        this.port.postMessage({
+          type: 'progress',
+          id: this.currentId,
+          seconds: this.stretcher.inputPosition / sampleRate
+        } satisfies FromTimeStretchMessage);
+      }
+      if (this.stretcher.done) {
+        this.port.postMessage({ type: 'ended', id: this.currentId } satisfies FromTimeStretchMessage);
+        this.currentId = null;
+      }
+    }
+
+    channel.fill(0, written);
+    for (let i = 1; i < output.length; i++) {
+      output[i].set(channel);
+    }
+    return true;
+  }
+}
+
+registerProcessor('time-stretch', TimeStretchProcessor);
@@ -0,0 +1,173 @@
+import * as ort from 'onnxruntime-web';
+import wasmSimdThreaded from '../onnxruntime/ort-wasm-simd-threaded.wasm?url';
+import wasmJsep from '../onnxruntime/ort-wasm-simd-threaded.jsep.wasm?url';
+import wasmAsyncify from '../onnxruntime/ort-wasm-simd-threaded.asyncify.wasm?url';
+import {
+  MODEL_FILES,
+  createSession,
+  createStyle,
+  isAbortError,
+  loadTextToSpeech,
+  type TextToSpeech
+} from '@lib/tts';
+import { fetchModel } from '@lib/tts/model-files';
+import type { FromTtsWorkerMessage, ToTtsWorkerMessage } from '@shared/messages';
+
+/**
+ * Dedicated worker that owns the ONNX sessions, so long vocoder runs do not hold up audio
+ * scheduling and messaging on the offscreen page. Synthesized audio is sent back as
+ * transferred Float32Arrays.
+ */
+
+const SESSION_OPTIONS = { graphOptimizationLevel: 'all' } as const;
+const MODEL_PROGRESS_INTERVAL_MS = 150;
+// Leave cores for the page and the audio thread
+const MAX_WASM_THREADS = 4;
+
+let textToSpeech: TextToSpeech | null = null;
+// In-flight requests by id, so 'cancel' can abort them
+const controllers = new Map<number, AbortController>();
+// Loads and syntheses run one after another: WebGPU sessions throw when runs overlap, and a
+// load must not release sessions a synthesis is still using
+let sessionQueue: Promise<void> = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<ToTtsWorkerMessage>) => {
+  void handleMessage(event.data);
+};
+
+async function handleMessage(message: ToTtsWorkerMessage): Promise<void> {
+  if (message.type === 'cancel') {
+    controllers.get(message.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(message.id, controller);
+  try {
+    switch (message.type) {
+      case 'load':
+        await runInTurn(() => load(message));
+        break;
+      case 'check-coverage':
+        post({ type: 'coverage', id: message.id, characters: requireTextToSpeech().findUnsupportedCharacters(message.texts) });
+        break;
+      case 'synthesize':
+        // A request cancelled while waiting its turn fails at once in synthesize
+        await runInTurn(() => synthesize(message, controller.signal));
+        break;
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      id: message.id,
+      message: error instanceof Error ? error.message : String(error),
+      aborted: isAbortError(error) || controller.signal.aborted
+    });
+  } finally {
+    controllers.delete(message.id);
+  }
+}
+
+/**
+ * Load the models on the requested backend, replacing any loaded before. With 'auto', a
+ * warm-up run checks the WebGPU sessions and moves any model that fails or produces
+ * non-finite output to WASM.
+ */
+async function load(message: Extract<ToTtsWorkerMessage, { type: 'load' }>): Promise<void> {
+  // Threads need SharedArrayBuffer, which only a cross-origin isolated context has
+  ort.env.wasm.numThreads = self.crossOriginIsolated
+    ? Math.min(MAX_WASM_THREADS, Math.ceil((navigator.hardwareConcurrency || 2) / 2))
+    : 1;
+  // Map bundled WASM filenames to their hashed URLs.
+  ort.env.wasm.wasmPaths = {
+    'ort-wasm-simd-threaded.wasm': wasmSimdThreaded,
+    'ort-wasm-simd-threaded.jsep.wasm': wasmJsep,
+    'ort-wasm-simd-threaded.asyncify.wasm': wasmAsyncify
+  };
+  debug('wasm-threads', { threads: ort.env.wasm.numThreads, crossOriginIsolated: self.crossOriginIsolated });
+
+  // Byte progress arrives for every network read; pass it on a few times a second
+  let lastReport = 0;
+  let lastStage: string | null = null;
+  const { textToSpeech: loaded } = await loadTextToSpeech(
+    message.onnxDir,
+    SESSION_OPTIONS,
+    (progress) => {
+      const now = performance.now();
+      const stage = `${progress.model}:${progress.stage}`;
+      if (stage === lastStage && now - lastReport < MODEL_PROGRESS_INTERVAL_MS) return;
+      if (stage !== lastStage) debug('model-loading', progress);
+      lastReport = now;
+      lastStage = stage;
+      post({ type: 'model-progress', progress });
+    },
+    message.backend
+  );
+
+  // Wire up debug callback to trace TTS pipeline
+  loaded.debugCallback = (name, detail) => debug(`tts:${name}`, detail);
+
+  if (message.backend === 'auto' && Object.values(loaded.providers).includes('webgpu')) {
+    await fallBackFailingSessions(loaded, message);
+  }
+
+  const previous = textToSpeech;
+  textToSpeech = loaded;
+  // Requests on the old sessions were aborted before we got here; their runs fail harmlessly
+  void previous?.release().catch(() => {});
+
+  post({
+    type: 'loaded',
+    id: message.id,
+    sampleRate: loaded.sampleRate,
+    providers: Object.fromEntries(MODEL_FILES.map(({ key, name }) => [name, loaded.providers[key]]))
+  });
+}
+
+async function fallBackFailingSessions(loaded: TextToSpeech, message: Extract<ToTtsWorkerMessage, { type: 'load' }>): Promise<void> {
+  const failing = await loaded.warmUp(createStyle(message.warmUpStyle));
+  for (const key of failing) {
+    const file = MODEL_FILES.find((model) => model.key === key)!;
+    debug('backend-fallback', { model: file.name, from: loaded.providers[key] }, 'warn');
+    const bytes = await fetchModel(`${message.onnxDir}/${file.file}`);
+    const { session } = await createSession(bytes, SESSION_OPTIONS, 'wasm');
+    await loaded.replaceSession(key, session, 'wasm');
+  }
+}
+
+async function synthesize(message: Extract<ToTtsWorkerMessage, { type: 'synthesize' }>, signal: AbortSignal): Promise<void> {
+  const tts = requireTextToSpeech();
+  tts.unknownCharStrategy = message.unknownChars;
+  const style = createStyle(message.style);
+  const progressCallback = message.reportProgress
+    ? (step: number, totalSteps: number) => post({ type: 'step-progress', id: message.id, step, totalSteps })
+    : null;
+
+  const results = message.texts.length === 1
+    ? [await tts.synthesizeChunk(message.texts[0], style, message.steps, message.speed, progressCallback, message.seed, signal)]
+    : await tts.synthesizeBatch(message.texts, style, message.steps, message.speed, progressCallback, message.seed, signal);
+
+  const wavs = results.map(({ wav }) => wav);
+  post({ type: 'audio', id: message.id, wavs }, [...new Set(wavs.map((wav) => wav.buffer))]);
+}
+
+function runInTurn(task: () => Promise<void>): Promise<void> {
+  const run = sessionQueue.then(task);
+  sessionQueue = run.catch(() => {});
+  return run;
+}
+
+function requireTextToSpeech(): TextToSpeech {
+  if (!textToSpeech) {
+    throw new Error('The voice models are not loaded');
+  }
+  return textToSpeech;
+}
+
+function debug(message: string, detail?: unknown, level: 'info' | 'warn' | 'error' = 'info'): void {
+  post({ type: 'debug', level, message, detail });
+}
+
+function post(message: FromTtsWorkerMessage, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
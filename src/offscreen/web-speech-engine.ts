@@ -0,0 +1,115 @@
+import type { TTSSettings } from '@shared/types';
+import type { EngineCapabilities, EngineVoice, SpeechEngine, SpeechSynthesisOptions } from './engine';
+
+// Browsers fill the voice list asynchronously; give up waiting after this long
+const VOICES_TIMEOUT_MS = 2000;
+// Speech rate at rate 1, for highlight timing before the utterance reports anything
+const CHARACTERS_PER_SECOND = 14;
+// The Web Speech API accepts 0.1 - 10, but most voices distort or ignore rates past these
+const MIN_RATE = 0.5;
+const MAX_RATE = 3;
+
+/**
+ * The browser's own voices through the Web Speech API. Used when picked in the settings and
+ * as the fallback when the ONNX models cannot be loaded.
+ */
+export class WebSpeechEngine implements SpeechEngine {
+  readonly id = 'web-speech';
+  readonly kind = 'speech';
+  readonly capabilities: EngineCapabilities = { renderSamples: false, voiceStyles: false, seed: false };
+
+  async load(_settings: TTSSettings): Promise<void> {
+    if (typeof speechSynthesis === 'undefined') {
+      throw new Error('Speech synthesis is not available in this browser');
+    }
+    const voices = await this.loadVoices();
+    if (voices.length === 0) {
+      throw new Error('The browser has no speech synthesis voices');
+    }
+  }
+
+  async voices(): Promise<EngineVoice[]> {
+    const voices = await this.loadVoices();
+    return voices.map((voice) => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang }));
+  }
+
+  async synthesizeChunk(text: string, options: SpeechSynthesisOptions, signal: AbortSignal): Promise<void> {
+    signal.throwIfAborted();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = Math.min(MAX_RATE, Math.max(MIN_RATE, options.rate));
+    const voice = await this.pickVoice(options.voice, options.locale);
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    } else if (options.locale) {
+      utterance.lang = options.locale;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        speechSynthesis.cancel();
+        reject(signal.reason ?? new DOMException('Speech aborted', 'AbortError'));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      utterance.onend = () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      utterance.onerror = (event) => {
+        signal.removeEventListener('abort', onAbort);
+        // cancel() from a stop ends the utterance with 'interrupted'; the abort handler has rejected already
+        if (event.error === 'interrupted' || event.error === 'canceled') {
+          resolve();
+        } else {
+          reject(new Error(`Speech synthesis failed: ${event.error}`));
+        }
+      };
+      speechSynthesis.speak(utterance);
+    });
+  }
+
+  estimateDuration(text: string, rate: number): number {
+    return text.length / CHARACTERS_PER_SECOND / Math.min(MAX_RATE, Math.max(MIN_RATE, rate));
+  }
+
+  pause(): void {
+    if (typeof speechSynthesis !== 'undefined') speechSynthesis.pause();
+  }
+
+  resume(): void {
+    if (typeof speechSynthesis !== 'undefined') speechSynthesis.resume();
+  }
+
+  /**
+   * A voice by URI or name, else the default voice for the locale's language, else the
+   * browser default (null).
+   */
+  private async pickVoice(wanted: string | undefined, locale: string | undefined): Promise<SpeechSynthesisVoice | null> {
+    const voices = await this.loadVoices();
+    if (wanted) {
+      const match = voices.find((voice) => voice.voiceURI === wanted || voice.name.toLowerCase() === wanted.toLowerCase());
+      if (match) return match;
+    }
+    if (!locale) return null;
+    const language = locale.split('-')[0].toLowerCase();
+    const sameLanguage = voices.filter((voice) => voice.lang.toLowerCase().split('-')[0] === language);
+    return sameLanguage.find((voice) => voice.lang.toLowerCase() === locale.toLowerCase())
+      ?? sameLanguage.find((voice) => voice.default)
+      ?? sameLanguage[0]
+      ?? null;
+  }
+
+  private async loadVoices(): Promise<SpeechSynthesisVoice[]> {
+    const voices = speechSynthesis.getVoices();
+    if (voices.length > 0) return voices;
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        speechSynthesis.removeEventListener('voiceschanged', done);
+        resolve(speechSynthesis.getVoices());
+      };
+      const timer = setTimeout(done, VOICES_TIMEOUT_MS);
+      speechSynthesis.addEventListener('voiceschanged', done);
+    });
+  }
+}
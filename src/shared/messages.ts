@@ -1,9 +1,21 @@
 import type {
   ArticleContent,
+  AudioExportFormat,
+  AudioExportRequest,
+  BackendInfo,
+  EngineInfo,
+  ExecutionBackend,
+  ExecutionProvider,
+  ModelLoadProgress,
   PlaybackState,
+  SeekTarget,
   TTSProgress,
   TTSRequest,
-  TTSResult
+  TTSResult,
+  TTSSettings,
+  UnknownCharStrategy,
+  VoiceBlendComponent,
+  VoiceStyleData
 } from './types';
 
 export type ContentToBackgroundMessage =
@@ -11,15 +23,21 @@ export type ContentToBackgroundMessage =
   | { type: 'start-tts'; payload: TTSRequest }
   | { type: 'pause-tts' }
   | { type: 'resume-tts' }
-  | { type: 'stop-tts' };
+  | { type: 'stop-tts' }
+  | { type: 'seek-tts'; target: SeekTarget };
 
 export type PopupToBackgroundMessage =
   | { type: 'popup-start-tts' }
   | { type: 'popup-pause-tts' }
   | { type: 'popup-resume-tts' }
   | { type: 'popup-stop-tts' }
+  | { type: 'popup-seek-tts'; target: SeekTarget }
   | { type: 'get-playback-state' }
-  | { type: 'popup-toggle-selection-mode' };
+  | { type: 'popup-toggle-selection-mode' }
+  | { type: 'popup-preview-voice'; blend: VoiceBlendComponent[] }
+  | { type: 'popup-export-audio'; format: AudioExportFormat }
+  | { type: 'popup-cancel-export' }
+  | { type: 'popup-retry-model' };
 
 export type BackgroundToContentMessage =
   | { type: 'playback-state'; state: PlaybackState }
@@ -31,16 +49,72 @@ export type BackgroundToOffscreenMessage =
   | { type: 'synthesize'; payload: TTSRequest }
   | { type: 'pause' }
   | { type: 'resume' }
-  | { type: 'stop' };
+  | { type: 'stop' }
+  | { type: 'seek'; target: SeekTarget }
+  | { type: 'export-audio'; payload: AudioExportRequest }
+  | { type: 'cancel-export' }
+  | { type: 'update-settings'; requestId: string | null; settings: TTSSettings }
+  | { type: 'retry-model' };
 
 export type OffscreenToBackgroundMessage =
   | { type: 'ready' }
   | { type: 'tts-progress'; progress: TTSProgress }
   | { type: 'tts-result'; result: TTSResult }
   | { type: 'tts-chunk-playing'; requestId: string; chunkIndex: number; chunkText: string; durationMs: number }
+  | { type: 'tts-position'; requestId: string; positionSeconds: number; durationSeconds: number }
   | { type: 'tts-complete'; requestId: string; totalDuration: number }
+  | { type: 'tts-unsupported-chars'; requestId: string; characters: string[] }
+  | { type: 'model-progress'; progress: ModelLoadProgress | null } // null once loading has finished
+  | { type: 'backend-info'; info: BackendInfo }
+  | { type: 'engine-info'; info: EngineInfo }
   | { type: 'tts-error'; requestId?: string; message: string }
-  | { type: 'debug-log'; level?: 'info' | 'warn' | 'error'; message: string; detail?: unknown };
+  | { type: 'debug-log'; level?: 'info' | 'warn' | 'error'; message: string; detail?: unknown }
+  | { type: 'export-progress'; exportId: string; currentChunk: number; totalChunks: number }
+  | { type: 'export-complete'; exportId: string; url: string; filename: string }
+  | { type: 'export-error'; exportId: string; message: string };
+
+// Offscreen document <-> time-stretch AudioWorklet (over the node's MessagePort)
+export type ToTimeStretchMessage =
+  | { type: 'play'; id: number; samples: Float32Array }
+  | { type: 'rate'; rate: number }
+  | { type: 'clear' };
+
+export type FromTimeStretchMessage =
+  | { type: 'started'; id: number; time: number } // AudioContext time of the chunk's first sample
+  | { type: 'ended'; id: number }
+  | { type: 'progress'; id: number; seconds: number }; // seconds of the chunk's samples played so far
+
+// Offscreen page <-> TTS worker. Requests carry an id that their reply (or error) repeats.
+export type ToTtsWorkerMessage =
+  | {
+      type: 'load';
+      id: number;
+      onnxDir: string;
+      backend: ExecutionBackend;
+      warmUpStyle: VoiceStyleData; // used by 'auto' to find models that fail on WebGPU
+    }
+  | { type: 'check-coverage'; id: number; texts: string[] }
+  | {
+      type: 'synthesize';
+      id: number;
+      texts: string[]; // more than one is synthesized as a batch
+      style: VoiceStyleData;
+      steps: number;
+      speed: number;
+      seed?: number;
+      unknownChars: UnknownCharStrategy;
+      reportProgress: boolean;
+    }
+  | { type: 'cancel'; id: number };
+
+export type FromTtsWorkerMessage =
+  | { type: 'loaded'; id: number; sampleRate: number; providers: Record<string, ExecutionProvider> }
+  | { type: 'coverage'; id: number; characters: string[] }
+  | { type: 'audio'; id: number; wavs: Float32Array[] } // buffers are transferred
+  | { type: 'step-progress'; id: number; step: number; totalSteps: number }
+  | { type: 'error'; id: number; message: string; aborted: boolean }
+  | { type: 'model-progress'; progress: ModelLoadProgress }
+  | { type: 'debug'; level: 'info' | 'warn' | 'error'; message: string; detail?: unknown };
 
 export type RuntimeMessage =
   | ContentToBackgroundMessage
@@ -57,9 +131,17 @@ export function isOffscreenMessage(
     message.type === 'tts-progress' ||
     message.type === 'tts-result' ||
     message.type === 'tts-chunk-playing' ||
+    message.type === 'tts-position' ||
     message.type === 'tts-complete' ||
+    message.type === 'tts-unsupported-chars' ||
+    message.type === 'model-progress' ||
+    message.type === 'backend-info' ||
+    message.type === 'engine-info' ||
     message.type === 'tts-error' ||
-    message.type === 'debug-log'
+    message.type === 'debug-log' ||
+    message.type === 'export-progress' ||
+    message.type === 'export-complete' ||
+    message.type === 'export-error'
   );
 }
 
@@ -71,7 +153,8 @@ export function isContentMessage(
     message.type === 'start-tts' ||
     message.type === 'pause-tts' ||
     message.type === 'resume-tts' ||
-    message.type === 'stop-tts'
+    message.type === 'stop-tts' ||
+    message.type === 'seek-tts'
   );
 }
 
@@ -83,7 +166,12 @@ export function isPopupMessage(
     message.type === 'popup-pause-tts' ||
     message.type === 'popup-resume-tts' ||
     message.type === 'popup-stop-tts' ||
+    message.type === 'popup-seek-tts' ||
     message.type === 'get-playback-state' ||
-    message.type === 'popup-toggle-selection-mode'
+    message.type === 'popup-toggle-selection-mode' ||
+    message.type === 'popup-preview-voice' ||
+    message.type === 'popup-export-audio' ||
+    message.type === 'popup-cancel-export' ||
+    message.type === 'popup-retry-model'
   );
 }
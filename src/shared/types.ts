@@ -1,10 +1,91 @@
-export type VoiceId = 'M1' | 'M2' | 'M3' | 'M4' | 'M5' | 'F1' | 'F2' | 'F3' | 'F4' | 'F5';
+export type BuiltinVoiceId = 'M1' | 'M2' | 'M3' | 'M4' | 'M5' | 'F1' | 'F2' | 'F3' | 'F4' | 'F5';
+export type CustomVoiceId = `custom:${string}`;
+export type VoiceId = BuiltinVoiceId | CustomVoiceId;
+
+export interface VoiceBlendComponent {
+  voice: BuiltinVoiceId;
+  weight: number; // relative; weights are normalized when blending
+}
+
+export interface VoiceStyleTensor {
+  dims: [number, number, number];
+  data: Float32Array; // flattened in row-major order
+}
+
+export interface VoiceStyleData {
+  ttl: VoiceStyleTensor;
+  dp: VoiceStyleTensor;
+}
+
+interface CustomVoiceBase {
+  id: CustomVoiceId;
+  name: string;
+  createdAt: number;
+}
+
+export interface BlendedCustomVoice extends CustomVoiceBase {
+  kind: 'blend';
+  blend: VoiceBlendComponent[];
+}
+
+export interface ImportedCustomVoice extends CustomVoiceBase {
+  kind: 'import';
+  style: VoiceStyleData;
+}
+
+export type CustomVoice = BlendedCustomVoice | ImportedCustomVoice;
+
+// Where inference runs: 'auto' prefers WebGPU and falls back to WASM per model
+export type ExecutionBackend = 'auto' | 'webgpu' | 'wasm';
+export type ExecutionProvider = 'webgpu' | 'wasm';
+
+// Providers the loaded models actually run on, shown in the popup
+export interface BackendInfo {
+  requested: ExecutionBackend;
+  providers: Record<string, ExecutionProvider>; // model display name -> provider
+}
+
+// Speech engines the offscreen document can play with (src/offscreen/engine.ts)
+export type TTSEngineId = 'supertonic' | 'web-speech';
+
+// Engine the current playback uses; fallbackReason is set when Supertonic failed and Web Speech took over
+export interface EngineInfo {
+  id: TTSEngineId;
+  fallbackReason?: string;
+}
+
+// How characters outside the model's alphabet are handled (lib/tts/coverage.ts)
+export type UnknownCharStrategy = 'transliterate' | 'spell' | 'drop' | 'refuse';
+
+// 'auto' adjusts the denoising steps during playback to what the machine keeps up with (lib/tts/quality.ts)
+export type QualityMode = 'fixed' | 'auto';
 
 export interface TTSSettings {
   voice: VoiceId;
-  speed: number; // 0.5 - 2.0
-  qualitySteps: number; // denoising steps (1-10+)
+  speed: number; // 0.5 - 3.0, applied by time-stretching
+  qualitySteps: number; // denoising steps (1-10+); where 'auto' starts, and used for exports
+  qualityMode?: QualityMode; // 'fixed' when unset
   widgetEnabled: boolean;
+  seed?: number; // fixed noise seed for reproducible output; random when unset
+  chunkPauseMs?: number; // silence added between chunks within a paragraph
+  paragraphPauseMs?: number; // silence added at the end of each paragraph
+  headingPauseMs?: number; // silence added after heading-like chunks
+  normalizeLoudness?: boolean; // match chunk levels; on when unset
+  unknownChars?: UnknownCharStrategy; // 'transliterate' when unset
+  backend?: ExecutionBackend; // 'auto' when unset
+  engine?: TTSEngineId; // 'supertonic' when unset
+  webSpeechVoice?: string; // voiceURI for the 'web-speech' engine; a voice for the page language when unset
+  resynthesizeBuffered?: boolean; // mid-playback voice or quality changes also redo audio synthesized ahead; off when unset
+}
+
+// Progress of loading the ONNX models, reported while the first request waits on them
+export interface ModelLoadProgress {
+  stage: 'fetch' | 'compile'; // reading the file, then creating the inference session
+  model: string; // display name, e.g. 'Vocoder'
+  modelIndex: number; // 1-based
+  modelCount: number;
+  loadedBytes: number; // across all models
+  totalBytes: number; // 0 when the sizes are unknown
 }
 
 export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused' | 'error';
@@ -17,6 +98,25 @@ export interface PlaybackState {
   durationSeconds: number;
   highlightedSentence?: number;
   error?: string;
+  unsupportedCharacters?: string[]; // characters in the current text the voice cannot read
+  modelProgress?: ModelLoadProgress; // set while the models are loading
+  backend?: BackendInfo; // known once the models have loaded
+  engine?: EngineInfo; // known once playback has started
+}
+
+// Where a seek lands. Relative seeks move from the chunk playing now: forward to the next
+// start of a unit, back to the last start before it (so back from mid-paragraph restarts
+// the paragraph). Chunks are a sentence or a few short ones.
+export type SeekUnit = 'chunk' | 'paragraph' | 'heading';
+
+export type SeekTarget =
+  | { kind: 'relative'; unit: SeekUnit; direction: 'forward' | 'back' }
+  | { kind: 'chunk'; index: number }
+  | { kind: 'heading'; index: number }; // nth heading-like chunk of the text, from 0
+
+export interface ArticleHeading {
+  text: string;
+  level: number; // 1-6, from the h1-h6 tag
 }
 
 export interface ArticleContent {
@@ -24,12 +124,29 @@ export interface ArticleContent {
   byline?: string;
   content: string;
   sentences: string[];
+  headings?: ArticleHeading[];
+  lang?: string; // page language (BCP 47), used for sentence segmentation
+}
+
+export type LexiconRuleKind = 'word' | 'regex';
+
+export interface LexiconRule {
+  id: string;
+  kind: LexiconRuleKind; // 'word' matches whole words only, 'regex' is a JS regular expression
+  pattern: string;
+  replacement: string; // regex rules may use $1-style group references
+  caseSensitive: boolean;
+  enabled: boolean;
 }
 
 export interface TTSRequest {
   requestId: string;
   text: string;
   settings: TTSSettings;
+  lexicon?: LexiconRule[];
+  ssml?: boolean; // text is SSML (supported subset in lib/tts/ssml.ts) rather than plain text
+  locale?: string; // language of the text (BCP 47); the browser default when missing
+  voiceBlend?: VoiceBlendComponent[]; // unsaved blend used instead of settings.voice (voice designer preview)
 }
 
 export interface TTSProgress {
@@ -54,3 +171,35 @@ export interface DebugLog {
 export interface HighlightUpdate {
   sentenceIndex: number;
 }
+
+export type AudioExportFormat = 'wav' | 'webm';
+
+export interface AudioChapter {
+  title: string;
+  startSeconds: number;
+}
+
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  chapters?: AudioChapter[];
+}
+
+export interface AudioExportRequest {
+  exportId: string;
+  article: ArticleContent;
+  settings: TTSSettings;
+  format: AudioExportFormat;
+  lexicon?: LexiconRule[];
+}
+
+export type ExportStatus = 'idle' | 'running' | 'done' | 'error';
+
+export interface ExportState {
+  status: ExportStatus;
+  exportId?: string;
+  format?: AudioExportFormat;
+  currentChunk: number;
+  totalChunks: number;
+  error?: string;
+}
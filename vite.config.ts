@@ -13,7 +13,7 @@ const manifest = defineManifest({
   },
   cross_origin_embedder_policy: { value: 'require-corp' },
   cross_origin_opener_policy: { value: 'same-origin' },
-  permissions: ['activeTab', 'storage', 'offscreen'],
+  permissions: ['activeTab', 'storage', 'offscreen', 'downloads'],
   host_permissions: ['<all_urls>'],
   background: {
     service_worker: 'src/background/service-worker.ts',
@@ -66,6 +66,10 @@ export default defineConfig({
     }
   },
   assetsInclude: ['**/*.wasm'],
+  // The TTS worker loads onnxruntime-web, which splits into chunks and needs ES module output
+  worker: {
+    format: 'es'
+  },
   build: {
     sourcemap: true,
     outDir: 'dist',